@@ -3,6 +3,7 @@ import { createRoot } from "react-dom/client";
 import { createBrowserRouter, RouterProvider } from "react-router-dom";
 
 import HomeRoute from "./src/routes/Home";
+import BenchmarkExampleRoute from "./src/routes/examples/Benchmark";
 import ConditionalExampleRoute from "./src/routes/examples/Conditional";
 import PixelBasedLayoutsRoute from "./src/routes/examples/PixelBasedLayouts";
 import ExternalPersistenceExampleRoute from "./src/routes/examples/ExternalPersistence";
@@ -21,6 +22,10 @@ const router = createBrowserRouter([
     path: "/",
     element: <HomeRoute />,
   },
+  {
+    path: "/examples/benchmark",
+    element: <BenchmarkExampleRoute />,
+  },
   {
     path: "/examples/conditional",
     element: <ConditionalExampleRoute />,
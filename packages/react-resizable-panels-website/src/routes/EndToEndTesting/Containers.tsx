@@ -0,0 +1,50 @@
+import { PropsWithChildren, useLayoutEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+
+import styles from "./styles.module.css";
+
+// Renders children into the document of an iframe,
+// like an app that portals panels into another window (e.g. a popout).
+export function IframeContainer({
+  children,
+  id,
+}: PropsWithChildren<{ id: string }>) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [body, setBody] = useState<HTMLElement | null>(null);
+
+  useLayoutEffect(() => {
+    const iframeDocument = iframeRef.current!.contentDocument!;
+    iframeDocument.documentElement.style.height = "100%";
+    iframeDocument.body.style.height = "100%";
+    iframeDocument.body.style.margin = "0";
+
+    setBody(iframeDocument.body);
+  }, []);
+
+  return (
+    <iframe className={styles.PortalContainer} id={id} ref={iframeRef}>
+      {body && createPortal(children, body)}
+    </iframe>
+  );
+}
+
+// Renders children into the (open) shadow root of a host element,
+// like a web component would.
+export function ShadowRootContainer({
+  children,
+  id,
+}: PropsWithChildren<{ id: string }>) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const [shadowRoot, setShadowRoot] = useState<ShadowRoot | null>(null);
+
+  useLayoutEffect(() => {
+    const host = hostRef.current!;
+    setShadowRoot(host.shadowRoot ?? host.attachShadow({ mode: "open" }));
+  }, []);
+
+  return (
+    <div className={styles.PortalContainer} id={id} ref={hostRef}>
+      {shadowRoot && createPortal(children, shadowRoot)}
+    </div>
+  );
+}
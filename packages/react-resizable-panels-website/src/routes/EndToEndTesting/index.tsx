@@ -1,5 +1,6 @@
 import {
   ChangeEvent,
+  cloneElement,
   Component,
   ErrorInfo,
   PropsWithChildren,
@@ -9,12 +10,15 @@ import {
 import {
   ImperativePanelGroupHandle,
   ImperativePanelHandle,
+  PanelGroupStorage,
   Units,
   getAvailableGroupSizePixels,
 } from "react-resizable-panels";
 
 import { urlPanelGroupToPanelGroup, urlToUrlData } from "../../utils/UrlData";
 
+import { IframeContainer, ShadowRootContainer } from "./Containers";
+
 import DebugLog, { ImperativeDebugLogHandle } from "../examples/DebugLog";
 
 import { useLayoutEffect } from "react";
@@ -51,6 +55,71 @@ function EndToEndTesting() {
     return urlToUrlData(url);
   });
 
+  // Renders the panels within a container scaled by a CSS transform (e.g. "?scale=0.5")
+  const [scale] = useState(() => {
+    const url = new URL(
+      typeof window !== undefined ? window.location.href : ""
+    );
+
+    return parseFloat(url.searchParams.get("scale") ?? "1");
+  });
+
+  // Renders the panels into an iframe or into the shadow root of a host element (e.g. "?container=shadow-root").
+  // Multiple copies (with the same ids) can be rendered into separate containers (e.g. "&containerCount=2").
+  const [container] = useState(() => {
+    const url = new URL(
+      typeof window !== undefined ? window.location.href : ""
+    );
+
+    return {
+      count: parseInt(url.searchParams.get("containerCount") ?? "1"),
+      type: url.searchParams.get("container"),
+    };
+  });
+
+  // Simulates asynchronous storage (e.g. IndexedDB) backed by localStorage (e.g. "?storageDelay=500").
+  // Items are stored under their own keys, so other tabs are only notified of changes through subscribe.
+  const [storage] = useState<PanelGroupStorage | undefined>(() => {
+    const url = new URL(
+      typeof window !== undefined ? window.location.href : ""
+    );
+
+    const storageDelay = url.searchParams.get("storageDelay");
+    if (storageDelay === null) {
+      return undefined;
+    }
+
+    const broadcastChannel = new BroadcastChannel("e2e-storage");
+
+    const wait = () =>
+      new Promise((resolve) => setTimeout(resolve, parseFloat(storageDelay)));
+
+    return {
+      getItem: async (name: string) => {
+        await wait();
+        return localStorage.getItem(`async:${name}`);
+      },
+      removeItem: async (name: string) => {
+        await wait();
+        localStorage.removeItem(`async:${name}`);
+        broadcastChannel.postMessage(name);
+      },
+      setItem: async (name: string, value: string) => {
+        await wait();
+        localStorage.setItem(`async:${name}`, value);
+        broadcastChannel.postMessage(name);
+      },
+      subscribe: (callback: (name: string) => void) => {
+        const onMessage = (event: MessageEvent) => callback(event.data);
+
+        broadcastChannel.addEventListener("message", onMessage);
+        return () => {
+          broadcastChannel.removeEventListener("message", onMessage);
+        };
+      },
+    };
+  });
+
   const [panelId, setPanelId] = useState("");
   const [panelIds, setPanelIds] = useState<string[]>([]);
   const [panelGroupId, setPanelGroupId] = useState("");
@@ -151,9 +220,26 @@ function EndToEndTesting() {
     };
   }, [urlData]);
 
-  const children = urlData
+  let children = urlData
     ? urlPanelGroupToPanelGroup(urlData, debugLogRef, idToRefMapRef)
     : null;
+  if (children !== null && storage !== undefined) {
+    children = cloneElement(children, { storage });
+  }
+  if (children !== null && container.type !== null) {
+    const Container =
+      container.type === "iframe" ? IframeContainer : ShadowRootContainer;
+
+    const containers = [];
+    for (let index = 0; index < container.count; index++) {
+      containers.push(
+        <Container id={`container-${index}`} key={index}>
+          {children}
+        </Container>
+      );
+    }
+    children = <>{containers}</>;
+  }
 
   const onLayoutInputChange = (event: ChangeEvent<HTMLInputElement>) => {
     const value = event.currentTarget.value;
@@ -302,7 +388,16 @@ function EndToEndTesting() {
           </button>
         </div>
       </div>
-      <div className={styles.Children}>{children}</div>
+      <div
+        className={styles.Children}
+        style={
+          scale !== 1
+            ? { transform: `scale(${scale})`, transformOrigin: "top left" }
+            : undefined
+        }
+      >
+        {children}
+      </div>
       <DebugLog apiRef={debugLogRef} />
     </div>
   );
@@ -17,6 +17,7 @@ const LINKS = [
   { path: "external-persistence", title: "External persistence" },
   { path: "imperative-panel-api", title: "Imperative Panel API" },
   { path: "imperative-panel-group-api", title: "Imperative PanelGroup API" },
+  { path: "benchmark", title: "Benchmark" },
 ];
 
 export default function HomeRoute() {
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import Example from "./Example";
+import styles from "./Benchmark.module.css";
+import sharedStyles from "./shared.module.css";
+
+const PANEL_COUNT = 60;
+
+export default function BenchmarkRoute() {
+  return (
+    <Example
+      code={CODE}
+      exampleNode={<Content />}
+      headerNode={
+        <>
+          <p>
+            This example renders a <code>PanelGroup</code> with {PANEL_COUNT}{" "}
+            panels. While a resize handle is being dragged, panel sizes are
+            written directly to the DOM; React only re-renders the panels once
+            the drag ends (or the browser is idle).
+          </p>
+          <p>
+            Drag any of the handles below and watch the frame rate and the
+            number of times the panels have rendered.
+          </p>
+        </>
+      }
+      title="Benchmark"
+    />
+  );
+}
+
+function Content() {
+  const renderCountRef = useRef(0);
+
+  const children = [];
+  for (let index = 0; index < PANEL_COUNT; index++) {
+    if (index > 0) {
+      children.push(
+        <PanelResizeHandle
+          className={styles.ResizeHandle}
+          key={`handle-${index}`}
+        />
+      );
+    }
+
+    children.push(
+      <Panel
+        className={styles.Panel}
+        key={`panel-${index}`}
+        minSize={0.5}
+        order={index}
+      >
+        <PanelContent index={index} renderCountRef={renderCountRef} />
+      </Panel>
+    );
+  }
+
+  return (
+    <>
+      <Stats renderCountRef={renderCountRef} />
+      <div className={sharedStyles.PanelGroupWrapper}>
+        <PanelGroup className={sharedStyles.PanelGroup} direction="horizontal">
+          {children}
+        </PanelGroup>
+      </div>
+    </>
+  );
+}
+
+function PanelContent({
+  index,
+  renderCountRef,
+}: {
+  index: number;
+  renderCountRef: { current: number };
+}) {
+  renderCountRef.current++;
+
+  return <>{index + 1}</>;
+}
+
+// Displays the frame rate and the total number of Panel renders (sampled once per second).
+function Stats({ renderCountRef }: { renderCountRef: { current: number } }) {
+  const [framesPerSecond, setFramesPerSecond] = useState(0);
+  const [renderCount, setRenderCount] = useState(0);
+
+  useEffect(() => {
+    let animationFrameId: number;
+    let frameCount = 0;
+    let startTime = performance.now();
+
+    const onAnimationFrame = () => {
+      frameCount++;
+
+      const now = performance.now();
+      if (now - startTime >= 1_000) {
+        setFramesPerSecond(
+          Math.round((frameCount * 1_000) / (now - startTime))
+        );
+        setRenderCount(renderCountRef.current);
+
+        frameCount = 0;
+        startTime = now;
+      }
+
+      animationFrameId = requestAnimationFrame(onAnimationFrame);
+    };
+
+    animationFrameId = requestAnimationFrame(onAnimationFrame);
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, [renderCountRef]);
+
+  return (
+    <div className={styles.Stats}>
+      <span>{framesPerSecond} fps</span>
+      <span>{renderCount} panel renders</span>
+    </div>
+  );
+}
+
+const CODE = `
+<PanelGroup direction="horizontal">
+  <Panel minSize={0.5}>1</Panel>
+  <PanelResizeHandle />
+  <Panel minSize={0.5}>2</Panel>
+  <PanelResizeHandle />
+  {/* ... */}
+  <Panel minSize={0.5}>${PANEL_COUNT}</Panel>
+</PanelGroup>
+`;
@@ -24,9 +24,10 @@ export default function ExternalPersistence() {
           </p>
           <p className={styles.WarningBlock}>
             <Icon className={styles.WarningIcon} type="warning" />
-            Note the <code>storage</code> API is <em>synchronous</em>. If an
-            async source is used (e.g. a database) then values should be
-            pre-fetched during the initial render (e.g. using Suspense).
+            Note the <code>storage</code> API can also be <em>asynchronous</em>{" "}
+            (e.g. a database). In that case the group renders its default sizes
+            (or a <code>fallbackLayout</code>) until the saved layout has
+            loaded.
           </p>
           <p className={styles.WarningBlock}>
             <Icon className={styles.WarningIcon} type="warning" />
@@ -1,5 +1,12 @@
+import { PanelResizeHandleDragState } from "react-resizable-panels";
+
 export type PanelCollapseLogEntryType = "onCollapse";
+export type PanelGroupLayoutChangeLogEntryType = "onLayoutChange";
 export type PanelGroupLayoutLogEntryType = "onLayout";
+export type PanelResizeHandleDragLogEntryType =
+  | "onDrag"
+  | "onDragEnd"
+  | "onDragStart";
 export type PanelResizeHandleDraggingLogEntryType = "onDragging";
 export type PanelResizeLogEntryType = "onResize";
 
@@ -8,11 +15,19 @@ export type PanelCollapseLogEntry = {
   panelId: string;
   type: PanelCollapseLogEntryType;
 };
+export type PanelResizeHandleDragLogEntry = PanelResizeHandleDragState & {
+  type: PanelResizeHandleDragLogEntryType;
+};
 export type PanelResizeHandleDraggingLogEntry = {
   isDragging: boolean;
   resizeHandleId: string;
   type: PanelResizeHandleDraggingLogEntryType;
 };
+export type PanelGroupLayoutChangeLogEntry = {
+  groupId: string;
+  layout: number[];
+  type: PanelGroupLayoutChangeLogEntryType;
+};
 export type PanelGroupLayoutLogEntry = {
   groupId: string;
   sizes: number[];
@@ -26,12 +41,16 @@ export type PanelResizeLogEntry = {
 
 export type LogEntryType =
   | PanelCollapseLogEntryType
+  | PanelResizeHandleDragLogEntryType
   | PanelResizeHandleDraggingLogEntryType
+  | PanelGroupLayoutChangeLogEntryType
   | PanelGroupLayoutLogEntryType
   | PanelResizeLogEntryType;
 
 export type LogEntry =
   | PanelCollapseLogEntry
+  | PanelResizeHandleDragLogEntry
   | PanelResizeHandleDraggingLogEntry
+  | PanelGroupLayoutChangeLogEntry
   | PanelGroupLayoutLogEntry
   | PanelResizeLogEntry;
@@ -11,43 +11,64 @@ import {
   ImperativePanelHandle,
   Panel,
   PanelGroup,
+  PanelGroupCascadeStrategy,
   PanelGroupOnLayout,
+  PanelGroupOnLayoutChange,
   PanelGroupProps,
+  PanelGroupTransition,
   PanelOnCollapse,
   PanelOnResize,
   PanelProps,
+  PanelResizeBehavior,
   PanelResizeHandle,
+  PanelResizeHandleDoubleClickAction,
+  PanelResizeHandleDragState,
+  PanelResizeHandleHitAreaMargins,
+  PanelResizeHandleOnDrag,
   PanelResizeHandleOnDragging,
   PanelResizeHandleProps,
+  PanelSize,
   Units,
 } from "react-resizable-panels";
 import { ImperativeDebugLogHandle } from "../routes/examples/DebugLog";
 
 type UrlPanel = {
   children: Array<string | UrlPanelGroup>;
-  collapsedSize?: number;
+  collapsedSize?: PanelSize;
   collapsible?: boolean;
-  defaultSize?: number | null;
+  defaultSize?: PanelSize | null;
   id?: string | null;
-  maxSize?: number | null;
-  minSize?: number;
+  maxSize?: PanelSize | null;
+  minSize?: PanelSize;
   order?: number | null;
+  resizeBehavior?: PanelResizeBehavior;
+  shrinkPriority?: number;
+  snapPoints?: PanelSize[] | null;
+  snapThreshold?: PanelSize | null;
   style?: CSSProperties;
   type: "UrlPanel";
 };
 
 type UrlPanelGroup = {
   autoSaveId?: string;
+  cascadeStrategy?: PanelGroupCascadeStrategy;
   children: Array<UrlPanel | UrlPanelResizeHandle>;
   direction: "horizontal" | "vertical";
+  dragPreview?: boolean;
+  fallbackLayout?: number[] | null;
   id?: string | null;
+  layout?: number[] | null;
   style?: CSSProperties;
+  syncAcrossTabs?: boolean;
+  transition?: PanelGroupTransition | null;
   type: "UrlPanelGroup";
   units: Units;
 };
 
 type UrlPanelResizeHandle = {
   disabled?: boolean;
+  doubleClickAction?: PanelResizeHandleDoubleClickAction | null;
+  hitAreaMargins?: PanelResizeHandleHitAreaMargins | null;
   id?: string | null;
   style?: CSSProperties;
   type: "UrlPanelResizeHandle";
@@ -110,6 +131,10 @@ function UrlPanelToData(urlPanel: ReactElement<PanelProps>): UrlPanel {
     maxSize: urlPanel.props.maxSize,
     minSize: urlPanel.props.minSize,
     order: urlPanel.props.order,
+    resizeBehavior: urlPanel.props.resizeBehavior,
+    shrinkPriority: urlPanel.props.shrinkPriority,
+    snapPoints: urlPanel.props.snapPoints,
+    snapThreshold: urlPanel.props.snapThreshold,
     style: urlPanel.props.style,
     type: "UrlPanel",
   };
@@ -120,6 +145,7 @@ function UrlPanelGroupToData(
 ): UrlPanelGroup {
   return {
     autoSaveId: urlPanelGroup.props.autoSaveId,
+    cascadeStrategy: urlPanelGroup.props.cascadeStrategy,
     children: Children.toArray(urlPanelGroup.props.children).map((child) => {
       if (isPanelElement(child)) {
         return UrlPanelToData(child);
@@ -130,8 +156,13 @@ function UrlPanelGroupToData(
       }
     }),
     direction: urlPanelGroup.props.direction,
+    dragPreview: urlPanelGroup.props.dragPreview,
+    fallbackLayout: urlPanelGroup.props.fallbackLayout,
     id: urlPanelGroup.props.id,
+    layout: urlPanelGroup.props.layout,
     style: urlPanelGroup.props.style,
+    syncAcrossTabs: urlPanelGroup.props.syncAcrossTabs,
+    transition: urlPanelGroup.props.transition,
     type: "UrlPanelGroup",
     units: urlPanelGroup.props.units ?? "percentages",
   };
@@ -142,6 +173,8 @@ function UrlPanelResizeHandleToData(
 ): UrlPanelResizeHandle {
   return {
     disabled: urlPanelResizeHandle.props.disabled,
+    doubleClickAction: urlPanelResizeHandle.props.doubleClickAction,
+    hitAreaMargins: urlPanelResizeHandle.props.hitAreaMargins,
     id: urlPanelResizeHandle.props.id,
     style: urlPanelResizeHandle.props.style,
     type: "UrlPanelResizeHandle",
@@ -207,6 +240,10 @@ function urlPanelToPanel(
       onResize,
       order: urlPanel.order,
       ref: refSetter,
+      resizeBehavior: urlPanel.resizeBehavior,
+      shrinkPriority: urlPanel.shrinkPriority,
+      snapPoints: urlPanel.snapPoints,
+      snapThreshold: urlPanel.snapThreshold,
       style: urlPanel.style,
     },
     urlPanel.children.map((child, index) => {
@@ -233,6 +270,7 @@ export function urlPanelGroupToPanelGroup(
   key?: any
 ): ReactElement {
   let onLayout: PanelGroupOnLayout | undefined = undefined;
+  let onLayoutChange: PanelGroupOnLayoutChange | undefined = undefined;
 
   const groupId = urlPanelGroup.id;
   if (groupId) {
@@ -242,6 +280,14 @@ export function urlPanelGroupToPanelGroup(
         debugLog.log({ groupId, type: "onLayout", sizes });
       }
     };
+
+    // Proposed layouts are only logged; tests apply them by updating the layout in the URL
+    onLayoutChange = (layout: number[]) => {
+      const debugLog = debugLogRef.current;
+      if (debugLog) {
+        debugLog.log({ groupId, layout, type: "onLayoutChange" });
+      }
+    };
   }
 
   const refSetter = (panelGroup: ImperativePanelGroupHandle | null) => {
@@ -256,13 +302,20 @@ export function urlPanelGroupToPanelGroup(
     PanelGroup,
     {
       autoSaveId: urlPanelGroup.autoSaveId,
+      cascadeStrategy: urlPanelGroup.cascadeStrategy,
       className: "PanelGroup",
       direction: urlPanelGroup.direction,
+      dragPreview: urlPanelGroup.dragPreview,
+      fallbackLayout: urlPanelGroup.fallbackLayout,
       id: urlPanelGroup.id,
       key: key,
+      layout: urlPanelGroup.layout,
       onLayout,
+      onLayoutChange,
       ref: refSetter,
       style: urlPanelGroup.style,
+      syncAcrossTabs: urlPanelGroup.syncAcrossTabs,
+      transition: urlPanelGroup.transition,
       units: urlPanelGroup.units,
     },
     urlPanelGroup.children.map((child, index) => {
@@ -286,9 +339,30 @@ function urlPanelResizeHandleToPanelResizeHandle(
   debugLogRef: RefObject<ImperativeDebugLogHandle>,
   key?: any
 ): ReactElement {
+  let onDrag: PanelResizeHandleOnDrag | undefined = undefined;
+  let onDragEnd: PanelResizeHandleOnDrag | undefined = undefined;
+  let onDragStart: PanelResizeHandleOnDrag | undefined = undefined;
   let onDragging: PanelResizeHandleOnDragging | undefined = undefined;
   const resizeHandleId = urlPanelResizeHandle.id;
   if (resizeHandleId) {
+    onDrag = (dragState: PanelResizeHandleDragState) => {
+      const debugLog = debugLogRef.current;
+      if (debugLog) {
+        debugLog.log({ ...dragState, type: "onDrag" });
+      }
+    };
+    onDragEnd = (dragState: PanelResizeHandleDragState) => {
+      const debugLog = debugLogRef.current;
+      if (debugLog) {
+        debugLog.log({ ...dragState, type: "onDragEnd" });
+      }
+    };
+    onDragStart = (dragState: PanelResizeHandleDragState) => {
+      const debugLog = debugLogRef.current;
+      if (debugLog) {
+        debugLog.log({ ...dragState, type: "onDragStart" });
+      }
+    };
     onDragging = (isDragging: boolean) => {
       const debugLog = debugLogRef.current;
       if (debugLog) {
@@ -304,8 +378,13 @@ function urlPanelResizeHandleToPanelResizeHandle(
   return createElement(PanelResizeHandle, {
     className: "PanelResizeHandle",
     disabled: urlPanelResizeHandle.disabled,
+    doubleClickAction: urlPanelResizeHandle.doubleClickAction,
+    hitAreaMargins: urlPanelResizeHandle.hitAreaMargins,
     id: urlPanelResizeHandle.id,
     key,
+    onDrag,
+    onDragEnd,
+    onDragStart,
     onDragging,
     style: urlPanelResizeHandle.style,
   });
@@ -0,0 +1,270 @@
+import { expect, test } from "@playwright/test";
+import {
+  adjustByDelta,
+  adjustLayoutForGroupResize,
+  calculateDefaultLayout,
+  PanelConstraints,
+  validatePanelGroupLayout,
+} from "react-resizable-panels/layout";
+
+// The layout engine doesn't depend on React or the DOM,
+// so these tests run in Node (without loading a page).
+
+function createPanelConstraints(
+  panelConstraints: Partial<PanelConstraints> = {}
+): PanelConstraints {
+  return {
+    collapsedSize: 0,
+    collapsible: false,
+    defaultSize: null,
+    maxSize: null,
+    minSize: 10,
+    ...panelConstraints,
+  };
+}
+
+test.describe("Layout engine", () => {
+  test.describe("calculateDefaultLayout", () => {
+    test("should distribute space evenly between panels without default sizes", () => {
+      expect(
+        calculateDefaultLayout({
+          groupSizePixels: NaN,
+          panelConstraints: [
+            createPanelConstraints(),
+            createPanelConstraints(),
+            createPanelConstraints(),
+            createPanelConstraints(),
+          ],
+          units: "percentages",
+        })
+      ).toEqual([25, 25, 25, 25]);
+    });
+
+    test("should respect default sizes", () => {
+      expect(
+        calculateDefaultLayout({
+          groupSizePixels: NaN,
+          panelConstraints: [
+            createPanelConstraints({ defaultSize: 20 }),
+            createPanelConstraints(),
+            createPanelConstraints(),
+          ],
+          units: "percentages",
+        })
+      ).toEqual([20, 40, 40]);
+    });
+
+    test("should convert pixel sizes using the group size", () => {
+      expect(
+        calculateDefaultLayout({
+          groupSizePixels: 400,
+          panelConstraints: [
+            createPanelConstraints({ defaultSize: "100px", minSize: 0 }),
+            createPanelConstraints({ minSize: 0 }),
+          ],
+          units: "percentages",
+        })
+      ).toEqual([25, 75]);
+    });
+  });
+
+  test.describe("adjustByDelta", () => {
+    test("should resize the panels on either side of the pivot", () => {
+      expect(
+        adjustByDelta({
+          delta: 10,
+          groupSizePixels: NaN,
+          layout: [50, 50],
+          panelConstraints: [
+            createPanelConstraints(),
+            createPanelConstraints(),
+          ],
+          pivotIndices: [0, 1],
+          trigger: "pointer",
+          units: "percentages",
+        })
+      ).toEqual([60, 40]);
+    });
+
+    test("should not resize panels beyond their min and max sizes", () => {
+      expect(
+        adjustByDelta({
+          delta: 50,
+          groupSizePixels: NaN,
+          layout: [50, 50],
+          panelConstraints: [
+            createPanelConstraints({ maxSize: 70 }),
+            createPanelConstraints(),
+          ],
+          pivotIndices: [0, 1],
+          trigger: "pointer",
+          units: "percentages",
+        })
+      ).toEqual([70, 30]);
+
+      expect(
+        adjustByDelta({
+          delta: -50,
+          groupSizePixels: NaN,
+          layout: [50, 50],
+          panelConstraints: [
+            createPanelConstraints(),
+            createPanelConstraints(),
+          ],
+          pivotIndices: [0, 1],
+          trigger: "pointer",
+          units: "percentages",
+        })
+      ).toEqual([10, 90]);
+    });
+
+    test("should collapse collapsible panels", () => {
+      expect(
+        adjustByDelta({
+          delta: -50,
+          groupSizePixels: NaN,
+          layout: [50, 50],
+          panelConstraints: [
+            createPanelConstraints({ collapsible: true }),
+            createPanelConstraints(),
+          ],
+          pivotIndices: [0, 1],
+          trigger: "pointer",
+          units: "percentages",
+        })
+      ).toEqual([0, 100]);
+    });
+
+    test("should not apply more than the delta when a panel collapses while cascading", () => {
+      (["proportional", "weighted"] as const).forEach((cascadeStrategy) => {
+        expect(
+          adjustByDelta({
+            cascadeStrategy,
+            delta: 30,
+            groupSizePixels: NaN,
+            layout: [40, 20, 40],
+            panelConstraints: [
+              createPanelConstraints(),
+              createPanelConstraints({ collapsible: true, minSize: 20 }),
+              createPanelConstraints(),
+            ],
+            pivotIndices: [0, 1],
+            trigger: "pointer",
+            units: "percentages",
+          })
+        ).toEqual([70, 0, 30]);
+      });
+    });
+
+    test("should return the previous layout if nothing can be resized", () => {
+      const layout = [10, 90];
+
+      expect(
+        adjustByDelta({
+          delta: -10,
+          groupSizePixels: NaN,
+          layout,
+          panelConstraints: [
+            createPanelConstraints(),
+            createPanelConstraints(),
+          ],
+          pivotIndices: [0, 1],
+          trigger: "keyboard",
+          units: "percentages",
+        })
+      ).toEqual(layout);
+    });
+  });
+
+  test.describe("adjustLayoutForGroupResize", () => {
+    test("should keep the pixel sizes of fixed panels", () => {
+      expect(
+        adjustLayoutForGroupResize({
+          groupSizePixels: 500,
+          layout: [20, 80],
+          panelConstraints: [
+            createPanelConstraints({ resizeBehavior: "fixed" }),
+            createPanelConstraints({ resizeBehavior: "fill" }),
+          ],
+          prevGroupSizePixels: 1000,
+          units: "percentages",
+        })
+      ).toEqual([40, 60]);
+    });
+
+    test("should shrink fixed panels once the group is too small for them", () => {
+      expect(
+        adjustLayoutForGroupResize({
+          groupSizePixels: 200,
+          layout: [50, 50],
+          panelConstraints: [
+            createPanelConstraints({ resizeBehavior: "fixed" }),
+            createPanelConstraints({ resizeBehavior: "fill" }),
+          ],
+          prevGroupSizePixels: 1000,
+          units: "percentages",
+        })
+      ).toEqual([90, 10]);
+
+      expect(
+        adjustLayoutForGroupResize({
+          groupSizePixels: 500,
+          layout: [30, 30, 40],
+          panelConstraints: [
+            createPanelConstraints({ resizeBehavior: "fixed" }),
+            createPanelConstraints({ resizeBehavior: "fixed" }),
+            createPanelConstraints({ resizeBehavior: "fill" }),
+          ],
+          prevGroupSizePixels: 1000,
+          units: "percentages",
+        })
+      ).toEqual([45, 45, 10]);
+
+      // Min sizes in pixels are converted using the new group size
+      expect(
+        adjustLayoutForGroupResize({
+          groupSizePixels: 200,
+          layout: [50, 50],
+          panelConstraints: [
+            createPanelConstraints({ resizeBehavior: "fixed" }),
+            createPanelConstraints({ minSize: 50, resizeBehavior: "fill" }),
+          ],
+          prevGroupSizePixels: 1000,
+          units: "pixels",
+        })
+      ).toEqual([75, 25]);
+    });
+  });
+
+  test.describe("validatePanelGroupLayout", () => {
+    test("should accept valid layouts", () => {
+      expect(
+        validatePanelGroupLayout({
+          groupSizePixels: NaN,
+          layout: [30, 70],
+          panelConstraints: [
+            createPanelConstraints(),
+            createPanelConstraints(),
+          ],
+          prevLayout: [50, 50],
+          units: "percentages",
+        })
+      ).toEqual([30, 70]);
+    });
+
+    test("should clamp sizes that violate min and max sizes", () => {
+      expect(
+        validatePanelGroupLayout({
+          groupSizePixels: NaN,
+          layout: [80, 20],
+          panelConstraints: [
+            createPanelConstraints({ maxSize: 60 }),
+            createPanelConstraints(),
+          ],
+          prevLayout: [50, 50],
+          units: "percentages",
+        })
+      ).toEqual([60, 40]);
+    });
+  });
+});
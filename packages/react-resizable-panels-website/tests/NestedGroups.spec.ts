@@ -1,8 +1,9 @@
-import { test } from "@playwright/test";
+import { expect, test } from "@playwright/test";
 import { createElement } from "react";
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 
 import { verifyAriaValues } from "./utils/aria";
+import { getBodyCursorStyle } from "./utils/cursor";
 import { goToUrl } from "./utils/url";
 
 test.describe("Nested groups", () => {
@@ -92,4 +93,58 @@ test.describe("Nested groups", () => {
     await verifyAriaValues(verticalHandle, { now: 10 });
     await verifyAriaValues(innerHorizontalHandle, { now: 90 });
   });
+
+  test("should resize both groups when dragged from where their handles intersect", async ({
+    page,
+  }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal" },
+        createElement(Panel, { minSize: 10 }),
+        createElement(PanelResizeHandle, { id: "horizontal-handle" }),
+        createElement(
+          Panel,
+          { minSize: 10 },
+          createElement(
+            PanelGroup,
+            { direction: "vertical" },
+            createElement(Panel, { minSize: 10 }),
+            createElement(PanelResizeHandle, { id: "vertical-handle" }),
+            createElement(Panel, { minSize: 10 })
+          )
+        )
+      )
+    );
+
+    const horizontalHandle = page.locator(
+      '[data-panel-resize-handle-id="horizontal-handle"]'
+    );
+    const verticalHandle = page.locator(
+      '[data-panel-resize-handle-id="vertical-handle"]'
+    );
+
+    await verifyAriaValues(horizontalHandle, { now: 50 });
+    await verifyAriaValues(verticalHandle, { now: 50 });
+
+    const horizontalBounds = (await horizontalHandle.boundingBox())!;
+    const verticalBounds = (await verticalHandle.boundingBox())!;
+
+    // The point where the two handles meet
+    const x = horizontalBounds.x + horizontalBounds.width / 2;
+    const y = verticalBounds.y + verticalBounds.height / 2;
+
+    await page.mouse.move(x, y);
+    await expect(await getBodyCursorStyle(page)).toBe("move");
+
+    await page.mouse.down();
+    await page.mouse.move(x - 40, y - 30);
+    await expect(await getBodyCursorStyle(page)).toBe("move");
+    await page.mouse.up();
+
+    await verifyAriaValues(horizontalHandle, { now: 40 });
+    await verifyAriaValues(verticalHandle, { now: 40 });
+    await expect(await getBodyCursorStyle(page)).toBe("auto");
+  });
 });
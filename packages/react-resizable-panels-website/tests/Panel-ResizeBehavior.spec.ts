@@ -0,0 +1,89 @@
+import { Page, test } from "@playwright/test";
+import { createElement } from "react";
+import {
+  Panel,
+  PanelGroup,
+  PanelProps,
+  PanelResizeHandle,
+} from "react-resizable-panels";
+
+import { verifyPanelSizePixels } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+
+async function goToUrlHelper(
+  page: Page,
+  props: {
+    leftPanelProps?: PanelProps;
+    middlePanelProps?: PanelProps;
+    rightPanelProps?: PanelProps;
+  } = {}
+) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, {
+        defaultSize: "100px",
+        id: "left-panel",
+        minSize: 10,
+        ...props.leftPanelProps,
+      }),
+      createElement(PanelResizeHandle, { id: "left-resize-handle" }),
+      createElement(Panel, {
+        id: "middle-panel",
+        minSize: 10,
+        ...props.middlePanelProps,
+      }),
+      createElement(PanelResizeHandle, { id: "right-resize-handle" }),
+      createElement(Panel, {
+        defaultSize: "100px",
+        id: "right-panel",
+        minSize: 10,
+        ...props.rightPanelProps,
+      })
+    )
+  );
+}
+
+test.describe("Panel resizeBehavior", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.setViewportSize({ width: 400, height: 300 });
+  });
+
+  test("should keep the pixel size of fixed panels when the group resizes", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { resizeBehavior: "fixed" },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+    const rightPanel = page.locator('[data-panel-id="right-panel"]');
+    await verifyPanelSizePixels(leftPanel, 100);
+    await verifyPanelSizePixels(rightPanel, 100);
+
+    await page.setViewportSize({ width: 600, height: 300 });
+    await verifyPanelSizePixels(leftPanel, 100);
+
+    await page.setViewportSize({ width: 300, height: 300 });
+    await verifyPanelSizePixels(leftPanel, 100);
+  });
+
+  test("should give the space of fixed panels to fill panels", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { resizeBehavior: "fixed" },
+      middlePanelProps: { resizeBehavior: "fill" },
+      rightPanelProps: { resizeBehavior: "fixed" },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+    const rightPanel = page.locator('[data-panel-id="right-panel"]');
+
+    await page.setViewportSize({ width: 600, height: 300 });
+    await verifyPanelSizePixels(leftPanel, 100);
+    await verifyPanelSizePixels(rightPanel, 100);
+  });
+});
@@ -0,0 +1,107 @@
+import { Page, test } from "@playwright/test";
+import { createElement } from "react";
+import {
+  Panel,
+  PanelGroup,
+  PanelProps,
+  PanelResizeHandle,
+} from "react-resizable-panels";
+
+import {
+  dragResizeBy,
+  verifyPanelSize,
+  verifyPanelSizePixels,
+} from "./utils/panels";
+import { goToUrl } from "./utils/url";
+
+async function goToUrlHelper(
+  page: Page,
+  props: {
+    leftPanelProps?: PanelProps;
+    rightPanelProps?: PanelProps;
+  } = {}
+) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, {
+        defaultSize: 50,
+        id: "left-panel",
+        ...props.leftPanelProps,
+      }),
+      createElement(PanelResizeHandle, { id: "resize-handle" }),
+      createElement(Panel, {
+        defaultSize: 50,
+        id: "right-panel",
+        ...props.rightPanelProps,
+      })
+    )
+  );
+}
+
+test.describe("Panel snapPoints", () => {
+  test("should snap to nearby snap points while dragging", async ({ page }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { snapPoints: [25, 75], snapThreshold: 5 },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+    await verifyPanelSize(leftPanel, 50);
+
+    // Not close enough to a snap point
+    await dragResizeBy(page, "resize-handle", -40);
+    await verifyPanelSize(leftPanel, 40);
+
+    await dragResizeBy(page, "resize-handle", -50);
+    await verifyPanelSize(leftPanel, 25);
+  });
+
+  test("should snap the panel after the resize handle", async ({ page }) => {
+    await goToUrlHelper(page, {
+      rightPanelProps: { snapPoints: ["100px"], snapThreshold: "20px" },
+    });
+
+    const rightPanel = page.locator('[data-panel-id="right-panel"]');
+
+    await dragResizeBy(page, "resize-handle", 90);
+    await verifyPanelSizePixels(rightPanel, 100);
+  });
+
+  test("should honor min size constraints when snapping", async ({ page }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { minSize: 30, snapPoints: [25], snapThreshold: 10 },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+
+    await dragResizeBy(page, "resize-handle", -90);
+    await verifyPanelSize(leftPanel, 30);
+  });
+
+  test("should step between snap points when resizing via keyboard", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { snapPoints: [25, 75] },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    await resizeHandle.focus();
+
+    await page.keyboard.press("ArrowLeft");
+    await verifyPanelSize(leftPanel, 25);
+
+    await page.keyboard.press("ArrowRight");
+    await verifyPanelSize(leftPanel, 75);
+
+    // There are no more snap points in this direction
+    await page.keyboard.press("ArrowRight");
+    await verifyPanelSize(leftPanel, 76);
+  });
+});
@@ -0,0 +1,125 @@
+import { Page, test } from "@playwright/test";
+import { createElement } from "react";
+import {
+  Panel,
+  PanelGroup,
+  PanelGroupCascadeStrategy,
+  PanelResizeHandle,
+} from "react-resizable-panels";
+
+import { imperativeResizePanel } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
+
+async function goToUrlHelper(
+  page: Page,
+  cascadeStrategy: PanelGroupCascadeStrategy,
+  shrinkPriorities: number[] = [1, 1, 1, 1]
+) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { cascadeStrategy, direction: "horizontal", id: "group" },
+      createElement(Panel, {
+        id: "first-panel",
+        minSize: 10,
+        shrinkPriority: shrinkPriorities[0],
+      }),
+      createElement(PanelResizeHandle, { id: "first-resize-handle" }),
+      createElement(Panel, {
+        id: "second-panel",
+        minSize: 10,
+        shrinkPriority: shrinkPriorities[1],
+      }),
+      createElement(PanelResizeHandle, { id: "second-resize-handle" }),
+      createElement(Panel, {
+        id: "third-panel",
+        minSize: 10,
+        shrinkPriority: shrinkPriorities[2],
+      }),
+      createElement(PanelResizeHandle, { id: "third-resize-handle" }),
+      createElement(Panel, {
+        id: "fourth-panel",
+        minSize: 10,
+        shrinkPriority: shrinkPriorities[3],
+      })
+    )
+  );
+}
+
+async function goToUrlWithCollapsiblePanel(
+  page: Page,
+  cascadeStrategy: PanelGroupCascadeStrategy
+) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { cascadeStrategy, direction: "horizontal", id: "group" },
+      createElement(Panel, { defaultSize: 40, id: "first-panel", minSize: 10 }),
+      createElement(PanelResizeHandle, { id: "first-resize-handle" }),
+      createElement(Panel, {
+        collapsible: true,
+        defaultSize: 20,
+        id: "second-panel",
+        minSize: 20,
+      }),
+      createElement(PanelResizeHandle, { id: "second-resize-handle" }),
+      createElement(Panel, { defaultSize: 40, id: "third-panel", minSize: 10 })
+    )
+  );
+}
+
+test.describe("PanelGroup cascadeStrategy", () => {
+  test("should shrink the nearest panels first by default", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, "nearest");
+    await verifySizes(page, 25, 25, 25, 25);
+
+    await imperativeResizePanel(page, "first-panel", 55);
+    await verifySizes(page, 55, 10, 10, 25);
+  });
+
+  test("should only shrink the neighboring panel", async ({ page }) => {
+    await goToUrlHelper(page, "neighbors");
+
+    await imperativeResizePanel(page, "first-panel", 55);
+    await verifySizes(page, 40, 10, 25, 25);
+  });
+
+  test("should shrink all panels proportionally", async ({ page }) => {
+    await goToUrlHelper(page, "proportional");
+
+    await imperativeResizePanel(page, "first-panel", 55);
+    await verifySizes(page, 55, 15, 15, 15);
+  });
+
+  test("should shrink panels according to their shrinkPriority", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, "weighted", [1, 2, 1, 1]);
+
+    await imperativeResizePanel(page, "first-panel", 55);
+    await verifySizes(page, 55, 10, 17.5, 17.5);
+
+    await goToUrlHelper(page, "weighted", [1, 0, 1, 1]);
+
+    await imperativeResizePanel(page, "first-panel", 45);
+    await verifySizes(page, 45, 25, 15, 15);
+  });
+
+  test("should not shrink other panels by more than the delta when a panel collapses", async ({
+    page,
+  }) => {
+    for (const cascadeStrategy of ["proportional", "weighted"] as const) {
+      await goToUrlWithCollapsiblePanel(page, cascadeStrategy);
+      await verifySizes(page, 40, 20, 40);
+
+      // The second panel collapses (absorbing 20 of the delta), so the third panel only shrinks by 10
+      await imperativeResizePanel(page, "first-panel", 70);
+      await verifySizes(page, 70, 0, 30);
+    }
+  });
+});
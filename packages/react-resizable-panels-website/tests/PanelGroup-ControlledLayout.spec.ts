@@ -0,0 +1,99 @@
+import { expect, Page, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { PanelGroupLayoutChangeLogEntry } from "../src/routes/examples/types";
+
+import { verifyAriaValues } from "./utils/aria";
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { dragResizeBy, imperativeResizePanel } from "./utils/panels";
+import { goToUrl, updateUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
+
+function createElements(layout: number[]) {
+  return createElement(
+    PanelGroup,
+    { direction: "horizontal", id: "group", layout },
+    createElement(Panel, { id: "left", minSize: 10 }),
+    createElement(PanelResizeHandle, { id: "resize-handle" }),
+    createElement(Panel, { id: "right", minSize: 10 })
+  );
+}
+
+async function getProposedLayouts(page: Page) {
+  const logEntries = await getLogEntries<PanelGroupLayoutChangeLogEntry>(
+    page,
+    "onLayoutChange"
+  );
+
+  return logEntries.map(({ layout }) => layout);
+}
+
+test.describe("PanelGroup controlled layout", () => {
+  test.beforeEach(async ({ page }) => {
+    await goToUrl(page, createElements([50, 50]));
+
+    await clearLogEntries(page);
+  });
+
+  test("should render the layout it has been given", async ({ page }) => {
+    await verifySizes(page, 50, 50);
+
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    await verifyAriaValues(resizeHandle, { now: 50 });
+  });
+
+  test("should propose layouts changed by dragging without applying them", async ({
+    page,
+  }) => {
+    await dragResizeBy(page, "resize-handle", 1000);
+
+    const proposedLayouts = await getProposedLayouts(page);
+    expect(proposedLayouts.length).toBeGreaterThan(0);
+    expect(proposedLayouts[proposedLayouts.length - 1]).toEqual([90, 10]);
+
+    await verifySizes(page, 50, 50);
+
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    await verifyAriaValues(resizeHandle, { now: 50 });
+
+    // The proposed layout is rendered once the parent passes it back in
+    await updateUrl(page, createElements([90, 10]));
+    await verifySizes(page, 90, 10);
+    await verifyAriaValues(resizeHandle, { now: 90 });
+  });
+
+  test("should propose layouts changed by the keyboard or imperative API without applying them", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    await resizeHandle.focus();
+    await page.keyboard.press("Home");
+    expect(await getProposedLayouts(page)).toEqual([[10, 90]]);
+    await verifySizes(page, 50, 50);
+
+    await clearLogEntries(page);
+
+    await imperativeResizePanel(page, "left", 30);
+    expect(await getProposedLayouts(page)).toEqual([[30, 70]]);
+    await verifySizes(page, 50, 50);
+  });
+
+  test("should apply layouts changed by the parent", async ({ page }) => {
+    await updateUrl(page, createElements([30, 70]));
+    await verifySizes(page, 30, 70);
+
+    await updateUrl(page, createElements([60, 40]));
+    await verifySizes(page, 60, 40);
+
+    // Layouts applied by the parent are not proposed back to it
+    expect(await getProposedLayouts(page)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { PanelGroupLayoutLogEntry } from "../src/routes/examples/types";
+
+import { verifyAriaValues } from "./utils/aria";
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
+
+test.describe("PanelGroup dragPreview", () => {
+  test.beforeEach(async ({ page }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal", dragPreview: true, id: "group" },
+        createElement(Panel, { defaultSize: 50, id: "left-panel" }),
+        createElement(PanelResizeHandle, { id: "resize-handle" }),
+        createElement(Panel, { defaultSize: 50, id: "right-panel" })
+      )
+    );
+
+    await clearLogEntries(page, "onLayout");
+  });
+
+  test("should only commit the layout once the pointer is released", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.move(bounds.x - 40, bounds.y);
+
+    // The handle should move but the panels should not be resized yet
+    const previewBounds = (await resizeHandle.boundingBox())!;
+    expect(previewBounds.x).toBeCloseTo(bounds.x - 40, 0);
+    await verifySizes(page, 50, 50);
+    expect(
+      await getLogEntries<PanelGroupLayoutLogEntry>(page, "onLayout")
+    ).toEqual([]);
+
+    await page.mouse.up();
+
+    await verifyAriaValues(resizeHandle, { now: 40 });
+    expect(
+      await getLogEntries<PanelGroupLayoutLogEntry>(page, "onLayout")
+    ).toHaveLength(1);
+  });
+
+  test("should discard the preview when a drag is cancelled", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.move(bounds.x - 40, bounds.y);
+    await page.keyboard.press("Escape");
+    await page.mouse.up();
+
+    await verifySizes(page, 50, 50);
+    expect((await resizeHandle.boundingBox())!.x).toBe(bounds.x);
+    expect(
+      await getLogEntries<PanelGroupLayoutLogEntry>(page, "onLayout")
+    ).toEqual([]);
+  });
+
+  test("should only commit keyboard resizes once the key is released", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    await resizeHandle.focus();
+    await page.keyboard.down("ArrowLeft");
+    await verifySizes(page, 50, 50);
+
+    await page.keyboard.up("ArrowLeft");
+    await verifyAriaValues(resizeHandle, { now: 49 });
+  });
+});
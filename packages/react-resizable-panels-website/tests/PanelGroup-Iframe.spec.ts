@@ -0,0 +1,112 @@
+import { expect, Frame, Page, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { verifyAriaValues } from "./utils/aria";
+import { verifyPanelSize } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+
+// The group is portaled into the document of an iframe (like a popout window),
+// so it should use that document (and its window) rather than the global ones.
+async function openPage(page: Page, dir: "ltr" | "rtl" = "ltr") {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, { defaultSize: 50, id: "left", minSize: 10 }),
+      // Styles from the page don't apply within the iframe
+      createElement(PanelResizeHandle, {
+        id: "resize-handle",
+        style: { flex: "0 0 10px" },
+      }),
+      createElement(Panel, { defaultSize: 50, id: "right", minSize: 10 })
+    ),
+    { container: "iframe" }
+  );
+
+  const frame = await getFrame(page);
+  if (dir === "rtl") {
+    await frame.evaluate(() => {
+      document.documentElement.dir = "rtl";
+    });
+  }
+
+  return frame;
+}
+
+async function getBodyCursorStyle(frame: Frame): Promise<string> {
+  return frame.evaluate(() => {
+    return getComputedStyle(document.body).getPropertyValue("cursor");
+  });
+}
+
+async function getFrame(page: Page): Promise<Frame> {
+  const iframe = await page.locator("#container-0").elementHandle();
+
+  return (await iframe!.contentFrame())!;
+}
+
+test.describe("PanelGroup within an iframe", () => {
+  test("should resize panels by dragging", async ({ page }) => {
+    const frame = await openPage(page);
+
+    const leftPanel = frame.locator('[data-panel-id="left"]');
+    const resizeHandle = frame.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    // Bounds are relative to the main frame (like mouse coordinates)
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+    await page.mouse.move(pageX + 1000, pageY);
+
+    await verifyPanelSize(leftPanel, 90);
+
+    // The cursor is styled within the document the group is rendered in
+    expect(await getBodyCursorStyle(frame)).toBe("ew-resize");
+
+    await page.mouse.up();
+
+    await verifyPanelSize(leftPanel, 90);
+    await verifyAriaValues(resizeHandle, { now: 90 });
+    expect(await getBodyCursorStyle(frame)).toBe("auto");
+  });
+
+  test("should resize panels using the keyboard", async ({ page }) => {
+    const frame = await openPage(page);
+
+    const leftPanel = frame.locator('[data-panel-id="left"]');
+    const resizeHandle = frame.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    await resizeHandle.focus();
+    await page.keyboard.press("ArrowLeft");
+    await verifyPanelSize(leftPanel, 49);
+
+    await page.keyboard.press("Home");
+    await verifyPanelSize(leftPanel, 10);
+    await verifyAriaValues(resizeHandle, { now: 10 });
+  });
+
+  test("should use the text direction of the document it is rendered in", async ({
+    page,
+  }) => {
+    const frame = await openPage(page, "rtl");
+
+    const leftPanel = frame.locator('[data-panel-id="left"]');
+    const resizeHandle = frame.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    // Panels are laid out right-to-left, so the first panel grows as the handle moves left
+    await resizeHandle.focus();
+    await page.keyboard.press("ArrowLeft");
+    await verifyPanelSize(leftPanel, 51);
+  });
+});
@@ -0,0 +1,151 @@
+import { expect, Page, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import {
+  PanelGroupLayoutLogEntry,
+  PanelResizeLogEntry,
+} from "../src/routes/examples/types";
+
+import { verifyAriaValues } from "./utils/aria";
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { verifyPanelSize } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
+
+async function openPage(page: Page) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, { defaultSize: 50, id: "left", minSize: 10 }),
+      createElement(PanelResizeHandle, { id: "resize-handle" }),
+      createElement(Panel, { defaultSize: 50, id: "right", minSize: 10 })
+    )
+  );
+
+  await clearLogEntries(page);
+}
+
+// Layouts applied while dragging are written directly to Panel elements (without re-rendering them);
+// React state is reconciled once the pointer has been released.
+test.describe("PanelGroup live layouts", () => {
+  test.beforeEach(async ({ page }) => {
+    await openPage(page);
+  });
+
+  test("should update panel sizes and aria values while dragging", async ({
+    page,
+  }) => {
+    const leftPanel = page.locator('[data-panel-id="left"]');
+    const rightPanel = page.locator('[data-panel-id="right"]');
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+
+    await page.mouse.move(pageX + 1000, pageY);
+    await verifyPanelSize(leftPanel, 90);
+    await verifyPanelSize(rightPanel, 10);
+    await verifyAriaValues(resizeHandle, { now: 90 });
+
+    await page.mouse.move(pageX - 1000, pageY);
+    await verifyPanelSize(leftPanel, 10);
+    await verifyPanelSize(rightPanel, 90);
+    await verifyAriaValues(resizeHandle, { now: 10 });
+
+    await page.mouse.up();
+
+    await verifySizes(page, 10, 90);
+    await verifyPanelSize(leftPanel, 10);
+    await verifyPanelSize(rightPanel, 90);
+    await verifyAriaValues(resizeHandle, { now: 10 });
+  });
+
+  test("should round aria values the same way while dragging", async ({
+    page,
+  }) => {
+    const leftPanel = page.locator('[data-panel-id="left"]');
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const getPanelSize = () =>
+      leftPanel.evaluate((element) =>
+        parseFloat((element as HTMLElement).style.flexGrow)
+      );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    // Resize the left panel to roughly 49.7% (which should be rounded up rather than truncated)
+    const groupBounds = (await page
+      .locator('[data-panel-group-id="group"]')
+      .boundingBox())!;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+    await page.mouse.move(pageX - groupBounds.width * 0.003, pageY);
+
+    const size = await getPanelSize();
+    expect(size).toBeGreaterThan(49.5);
+    expect(size).toBeLessThan(50);
+    await verifyAriaValues(resizeHandle, { now: 50 });
+
+    await page.mouse.up();
+
+    expect(await getPanelSize()).toBe(size);
+    await verifyAriaValues(resizeHandle, { now: 50 });
+  });
+
+  test("should call onLayout and onResize once per layout", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+    await page.mouse.move(pageX + 1000, pageY);
+    await page.mouse.move(pageX - 1000, pageY);
+    await page.mouse.up();
+
+    // Reconciling React state after the pointer is released should not notify callbacks again
+    await verifySizes(page, 10, 90);
+
+    const layoutLogEntries = await getLogEntries<PanelGroupLayoutLogEntry>(
+      page,
+      "onLayout"
+    );
+    expect(layoutLogEntries.map(({ sizes }) => sizes)).toEqual([
+      [90, 10],
+      [10, 90],
+    ]);
+
+    const resizeLogEntries = await getLogEntries<PanelResizeLogEntry>(
+      page,
+      "onResize"
+    );
+    expect(
+      resizeLogEntries.map(({ panelId, size }) => ({ panelId, size }))
+    ).toEqual([
+      { panelId: "left", size: 90 },
+      { panelId: "right", size: 10 },
+      { panelId: "left", size: 10 },
+      { panelId: "right", size: 90 },
+    ]);
+  });
+});
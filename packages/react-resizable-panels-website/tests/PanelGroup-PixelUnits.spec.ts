@@ -1,4 +1,4 @@
-import { Page, test } from "@playwright/test";
+import { expect, Page, test } from "@playwright/test";
 import { createElement } from "react";
 import {
   Panel,
@@ -9,9 +9,11 @@ import {
   PanelResizeHandleProps,
 } from "react-resizable-panels";
 
+import { verifyAriaValues } from "./utils/aria";
 import {
   dragResizeBy,
   imperativeResizePanel,
+  verifyPanelSize,
   verifyPanelSizePixels,
 } from "./utils/panels";
 import { goToUrl, updateUrl } from "./utils/url";
@@ -369,4 +371,128 @@ test.describe("Pixel units", () => {
     await updateUrl(page, elements);
     await verifySizesPixels(page, 50, 147.3, 98.7);
   });
+
+  test("should exclude gaps and padding from the group size", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { maxSize: 150, minSize: 100 },
+      panelGroupProps: { style: { columnGap: "10px", padding: "0 20px" } },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+    await verifyPanelSizePixels(leftPanel, 150);
+    expect((await leftPanel.boundingBox())!.width).toBeCloseTo(150, 0);
+
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="left-resize-handle"]'
+    );
+    await resizeHandle.focus();
+
+    await page.keyboard.press("Home");
+    await verifyPanelSizePixels(leftPanel, 100);
+    expect((await leftPanel.boundingBox())!.width).toBeCloseTo(100, 0);
+  });
+
+  test("should keep wide resize handles under the pointer while dragging", async ({
+    page,
+  }) => {
+    await goToUrlHelper(page, {
+      leftPanelProps: { defaultSize: 100, minSize: 10 },
+      leftResizeHandleProps: { style: { flex: "0 0 40px" } },
+      rightResizeHandleProps: { style: { flex: "0 0 40px" } },
+    });
+
+    const leftPanel = page.locator('[data-panel-id="left-panel"]');
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="left-resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+    await page.mouse.move(pageX + 50, pageY);
+
+    const nextBounds = (await resizeHandle.boundingBox())!;
+    expect(nextBounds.x).toBeCloseTo(bounds.x + 50, 0);
+
+    await page.mouse.move(pageX - 50, pageY);
+
+    const prevBounds = (await resizeHandle.boundingBox())!;
+    expect(prevBounds.x).toBeCloseTo(bounds.x - 50, 0);
+
+    await page.mouse.up();
+    await verifyPanelSizePixels(leftPanel, 50);
+  });
+
+  test("should resize by 1% of the available space using the keyboard", async ({
+    page,
+  }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal", id: "group" },
+        createElement(Panel, { defaultSize: 50, id: "left-panel" }),
+        createElement(PanelResizeHandle, {
+          id: "resize-handle",
+          style: { flex: "0 0 100px" },
+        }),
+        createElement(Panel, { defaultSize: 50, id: "right-panel" })
+      )
+    );
+
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    await resizeHandle.focus();
+
+    await page.keyboard.press("ArrowRight");
+    await verifyAriaValues(resizeHandle, { now: 51 });
+
+    await page.keyboard.press("Shift+ArrowLeft");
+    await verifyAriaValues(resizeHandle, { now: 41 });
+  });
+
+  test.describe("mixed units", () => {
+    test("should honor pixel constraints within a percentage group", async ({
+      page,
+    }) => {
+      await goToUrlHelper(page, {
+        leftPanelProps: { maxSize: "200px", minSize: "100px" },
+        panelGroupProps: { units: "percentages" },
+      });
+
+      const leftPanel = page.locator('[data-panel-id="left-panel"]');
+
+      await dragResizeBy(page, "left-resize-handle", -200);
+      await verifyPanelSizePixels(leftPanel, 100);
+
+      await dragResizeBy(page, "left-resize-handle", 300);
+      await verifyPanelSizePixels(leftPanel, 200);
+    });
+
+    test("should honor percentage constraints within a pixel group", async ({
+      page,
+    }) => {
+      await goToUrlHelper(page, {
+        leftPanelProps: { maxSize: "50%", minSize: { value: 25, unit: "%" } },
+      });
+
+      const leftPanel = page.locator('[data-panel-id="left-panel"]');
+      const resizeHandle = page.locator(
+        '[data-panel-resize-handle-id="left-resize-handle"]'
+      );
+      await resizeHandle.focus();
+
+      await page.keyboard.press("Home");
+      await verifyPanelSize(leftPanel, 25);
+
+      await page.keyboard.press("End");
+      await verifyPanelSize(leftPanel, 50);
+    });
+  });
 });
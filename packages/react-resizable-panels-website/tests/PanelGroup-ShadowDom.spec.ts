@@ -0,0 +1,84 @@
+import { Page, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { verifyAriaValues } from "./utils/aria";
+import { verifyPanelSize } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+
+// Groups with the same ids are rendered into the shadow roots of two host elements;
+// each group should only find (and resize) its own panels and resize handles.
+async function openPage(page: Page) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, { defaultSize: 50, id: "left", minSize: 10 }),
+      // Styles from the page don't apply within shadow roots
+      createElement(PanelResizeHandle, {
+        id: "resize-handle",
+        style: { flex: "0 0 10px" },
+      }),
+      createElement(Panel, { defaultSize: 50, id: "right", minSize: 10 })
+    ),
+    { container: "shadow-root", containerCount: 2 }
+  );
+}
+
+function getLocators(page: Page, containerIndex: number) {
+  // Locators pierce open shadow roots
+  const container = page.locator(`#container-${containerIndex}`);
+
+  return {
+    leftPanel: container.locator('[data-panel-id="left"]'),
+    resizeHandle: container.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    ),
+    rightPanel: container.locator('[data-panel-id="right"]'),
+  };
+}
+
+test.describe("PanelGroup within a shadow root", () => {
+  test.beforeEach(async ({ page }) => {
+    await openPage(page);
+  });
+
+  test("should resize panels by dragging", async ({ page }) => {
+    const first = getLocators(page, 0);
+    const second = getLocators(page, 1);
+
+    const bounds = (await second.resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+    await page.mouse.move(pageX + 1000, pageY);
+    await page.mouse.up();
+
+    await verifyPanelSize(second.leftPanel, 90);
+    await verifyPanelSize(second.rightPanel, 10);
+    await verifyAriaValues(second.resizeHandle, { now: 90 });
+
+    await verifyPanelSize(first.leftPanel, 50);
+    await verifyPanelSize(first.rightPanel, 50);
+    await verifyAriaValues(first.resizeHandle, { now: 50 });
+  });
+
+  test("should resize panels using the keyboard", async ({ page }) => {
+    const first = getLocators(page, 0);
+    const second = getLocators(page, 1);
+
+    await first.resizeHandle.focus();
+    await page.keyboard.press("Home");
+
+    await verifyPanelSize(first.leftPanel, 10);
+    await verifyPanelSize(first.rightPanel, 90);
+    await verifyAriaValues(first.resizeHandle, { now: 10 });
+
+    await verifyPanelSize(second.leftPanel, 50);
+    await verifyPanelSize(second.rightPanel, 50);
+    await verifyAriaValues(second.resizeHandle, { now: 50 });
+  });
+});
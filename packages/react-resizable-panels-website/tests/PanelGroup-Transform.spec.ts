@@ -0,0 +1,63 @@
+import { expect, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { verifyAriaValues } from "./utils/aria";
+import { goToUrl } from "./utils/url";
+
+test.describe("PanelGroup within a scaled container", () => {
+  test.beforeEach(async ({ page }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal", id: "group" },
+        createElement(Panel, { defaultSize: 50, id: "left-panel" }),
+        createElement(PanelResizeHandle, { id: "resize-handle" }),
+        createElement(Panel, { defaultSize: 50, id: "right-panel" })
+      ),
+      { scale: 0.5 }
+    );
+  });
+
+  test("should keep the resize handle under the pointer while dragging", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.move(bounds.x + 50, bounds.y);
+
+    // The group is rendered at half size, so 50 (screen) pixels is a quarter of it
+    const nextBounds = (await resizeHandle.boundingBox())!;
+    expect(nextBounds.x).toBeCloseTo(bounds.x + 50, 0);
+    await verifyAriaValues(resizeHandle, { now: 75 });
+
+    await page.mouse.move(bounds.x - 50, bounds.y);
+
+    const prevBounds = (await resizeHandle.boundingBox())!;
+    expect(prevBounds.x).toBeCloseTo(bounds.x - 50, 0);
+    await verifyAriaValues(resizeHandle, { now: 25 });
+
+    await page.mouse.up();
+  });
+
+  test("should resize by the same percentage using the keyboard", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    await resizeHandle.focus();
+
+    await page.keyboard.press("ArrowRight");
+    await verifyAriaValues(resizeHandle, { now: 51 });
+
+    await page.keyboard.press("Shift+ArrowLeft");
+    await verifyAriaValues(resizeHandle, { now: 41 });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect, Page, test } from "@playwright/test";
+import { createElement } from "react";
+import {
+  Panel,
+  PanelGroup,
+  PanelGroupTransition,
+  PanelResizeHandle,
+} from "react-resizable-panels";
+
+import { PanelResizeLogEntry } from "../src/routes/examples/types";
+
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { imperativeResizePanelGroup } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+
+async function openPage(page: Page, transition: PanelGroupTransition) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group", transition },
+      createElement(Panel, { defaultSize: 50, id: "left", minSize: 10 }),
+      createElement(PanelResizeHandle, { id: "resize-handle" }),
+      createElement(Panel, { defaultSize: 50, id: "right", minSize: 10 })
+    )
+  );
+
+  await clearLogEntries(page);
+}
+
+async function getLeftPanelSizes(page: Page) {
+  const logEntries = await getLogEntries<PanelResizeLogEntry>(page, "onResize");
+
+  return logEntries
+    .filter(({ panelId }) => panelId === "left")
+    .map(({ size }) => size);
+}
+
+async function getLeftPanelSize(page: Page) {
+  const leftPanel = page.locator('[data-panel-id="left"]');
+
+  return parseFloat((await leftPanel.getAttribute("data-panel-size"))!);
+}
+
+test.describe("PanelGroup transition", () => {
+  test("should animate imperative layout changes with a tween", async ({
+    page,
+  }) => {
+    await openPage(page, { duration: 500 });
+
+    await imperativeResizePanelGroup(page, "group", [20, 80]);
+    await expect.poll(() => getLeftPanelSize(page)).toBe(20);
+
+    // Panels are resized (and notified) once per frame
+    const sizes = await getLeftPanelSizes(page);
+    expect(sizes.length).toBeGreaterThan(2);
+    expect(sizes[sizes.length - 1]).toBe(20);
+    sizes.forEach((size, index) => {
+      expect(size).toBeGreaterThanOrEqual(20);
+      expect(size).toBeLessThan(50);
+      if (index > 0) {
+        expect(size).toBeLessThanOrEqual(sizes[index - 1]);
+      }
+    });
+  });
+
+  test("should animate imperative layout changes with a spring", async ({
+    page,
+  }) => {
+    await openPage(page, { type: "spring" });
+
+    await imperativeResizePanelGroup(page, "group", [20, 80]);
+    await expect.poll(() => getLeftPanelSize(page)).toBe(20);
+
+    // Springs don't overshoot the target layout
+    const sizes = await getLeftPanelSizes(page);
+    expect(sizes.length).toBeGreaterThan(2);
+    expect(sizes[sizes.length - 1]).toBe(20);
+    sizes.forEach((size) => {
+      expect(size).toBeGreaterThanOrEqual(20);
+      expect(size).toBeLessThan(50);
+    });
+  });
+
+  test("should not animate if the user prefers reduced motion", async ({
+    page,
+  }) => {
+    await page.emulateMedia({ reducedMotion: "reduce" });
+    await openPage(page, { duration: 500 });
+
+    await imperativeResizePanelGroup(page, "group", [20, 80]);
+    expect(await getLeftPanelSize(page)).toBe(20);
+    expect(await getLeftPanelSizes(page)).toEqual([20]);
+  });
+
+  test("should start interrupting transitions from the current layout", async ({
+    page,
+  }) => {
+    await openPage(page, { duration: 1000 });
+
+    await imperativeResizePanelGroup(page, "group", [20, 80]);
+    await expect.poll(() => getLeftPanelSize(page)).toBeLessThan(40);
+
+    await clearLogEntries(page);
+
+    await imperativeResizePanelGroup(page, "group", [80, 20]);
+    await expect.poll(() => getLeftPanelSize(page)).toBe(80);
+
+    // The panel should not jump back to its size before the first transition started
+    const sizes = await getLeftPanelSizes(page);
+    expect(sizes[0]).toBeLessThan(45);
+    expect(sizes[sizes.length - 1]).toBe(80);
+  });
+});
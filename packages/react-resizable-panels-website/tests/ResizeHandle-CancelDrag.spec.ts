@@ -0,0 +1,57 @@
+import { expect, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { PanelResizeHandleDraggingLogEntry } from "../src/routes/examples/types";
+
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
+
+test.describe("Cancel drag", () => {
+  test.beforeEach(async ({ page }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal", id: "group" },
+        createElement(Panel, { defaultSize: 50, id: "left-panel" }),
+        createElement(PanelResizeHandle, { id: "resize-handle" }),
+        createElement(Panel, { defaultSize: 50, id: "right-panel" })
+      )
+    );
+  });
+
+  test("should restore the pre-drag layout when Escape is pressed", async ({
+    page,
+  }) => {
+    await clearLogEntries(page, "onDragging");
+
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.move(bounds.x - 100, bounds.y);
+    await verifySizes(page, 25, 75);
+
+    await page.keyboard.press("Escape");
+    await verifySizes(page, 50, 50);
+
+    // Further pointer movement should not resize the panels
+    await page.mouse.move(bounds.x + 100, bounds.y);
+    await page.mouse.up();
+    await verifySizes(page, 50, 50);
+
+    const logEntries = await getLogEntries<PanelResizeHandleDraggingLogEntry>(
+      page,
+      "onDragging"
+    );
+    expect(logEntries.map(({ isDragging }) => isDragging)).toEqual([
+      true,
+      false,
+    ]);
+  });
+});
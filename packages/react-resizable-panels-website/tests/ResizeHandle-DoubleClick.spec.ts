@@ -0,0 +1,86 @@
+import { Page, test } from "@playwright/test";
+import { createElement } from "react";
+import {
+  Panel,
+  PanelGroup,
+  PanelProps,
+  PanelResizeHandle,
+  PanelResizeHandleDoubleClickAction,
+} from "react-resizable-panels";
+
+import { imperativeResizePanel } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
+
+async function goToUrlHelper(
+  page: Page,
+  doubleClickAction: PanelResizeHandleDoubleClickAction,
+  props: {
+    leftPanelProps?: PanelProps;
+    rightPanelProps?: PanelProps;
+  } = {}
+) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, {
+        defaultSize: 30,
+        id: "left-panel",
+        minSize: 10,
+        ...props.leftPanelProps,
+      }),
+      createElement(PanelResizeHandle, {
+        doubleClickAction,
+        id: "resize-handle",
+      }),
+      createElement(Panel, {
+        defaultSize: 70,
+        id: "right-panel",
+        minSize: 10,
+        ...props.rightPanelProps,
+      })
+    )
+  );
+}
+
+async function doubleClickResizeHandle(page: Page) {
+  await page
+    .locator('[data-panel-resize-handle-id="resize-handle"]')
+    .dblclick();
+}
+
+test.describe("Resize handle double-click", () => {
+  test("should reset panels to their default sizes", async ({ page }) => {
+    await goToUrlHelper(page, "reset");
+    await verifySizes(page, 30, 70);
+
+    await imperativeResizePanel(page, "left-panel", 60);
+    await verifySizes(page, 60, 40);
+
+    await doubleClickResizeHandle(page);
+    await verifySizes(page, 30, 70);
+  });
+
+  test("should equalize panels", async ({ page }) => {
+    await goToUrlHelper(page, "equalize");
+    await verifySizes(page, 30, 70);
+
+    await doubleClickResizeHandle(page);
+    await verifySizes(page, 50, 50);
+  });
+
+  test("should toggle the collapsible panel", async ({ page }) => {
+    await goToUrlHelper(page, "toggle-collapse", {
+      rightPanelProps: { collapsible: true },
+    });
+    await verifySizes(page, 30, 70);
+
+    await doubleClickResizeHandle(page);
+    await verifySizes(page, 100, 0);
+
+    await doubleClickResizeHandle(page);
+    await verifySizes(page, 30, 70);
+  });
+});
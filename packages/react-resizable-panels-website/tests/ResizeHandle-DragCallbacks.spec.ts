@@ -0,0 +1,147 @@
+import { expect, Page, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { PanelResizeHandleDragLogEntry } from "../src/routes/examples/types";
+
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { goToUrl } from "./utils/url";
+
+async function getDragLogEntries(page: Page) {
+  const logEntries = await getLogEntries<PanelResizeHandleDragLogEntry>(page);
+
+  return logEntries.filter(
+    ({ type }) =>
+      type === "onDrag" || type === "onDragEnd" || type === "onDragStart"
+  );
+}
+
+test.describe("PanelResizeHandle drag callbacks", () => {
+  test.beforeEach(async ({ page }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal", id: "group" },
+        createElement(Panel, { defaultSize: 50, id: "left-panel" }),
+        createElement(PanelResizeHandle, { id: "resize-handle" }),
+        createElement(Panel, { defaultSize: 50, id: "right-panel" })
+      )
+    );
+
+    await clearLogEntries(page);
+  });
+
+  test("should not be called on-mount", async ({ page }) => {
+    expect(await getDragLogEntries(page)).toEqual([]);
+  });
+
+  test("should be called when the handle is dragged with a pointer", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.move(bounds.x - 40, bounds.y);
+    await page.mouse.up();
+
+    const logEntries = await getDragLogEntries(page);
+    expect(logEntries.map(({ type }) => type)).toEqual([
+      "onDragStart",
+      "onDrag",
+      "onDragEnd",
+    ]);
+
+    logEntries.forEach(({ handleId, initialLayout, inputType, panelIds }) => {
+      expect(handleId).toBe("resize-handle");
+      expect(initialLayout).toEqual([50, 50]);
+      expect(inputType).toBe("pointer");
+      expect(panelIds).toEqual(["left-panel", "right-panel"]);
+    });
+
+    const [dragStart, drag, dragEnd] = logEntries;
+    expect(dragStart.layout).toEqual([50, 50]);
+    expect(drag.layout[0]).toBeLessThan(50);
+    expect(dragEnd.layout).toEqual(drag.layout);
+  });
+
+  test("should report the initial layout when a drag is cancelled", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.move(bounds.x - 40, bounds.y);
+    await page.keyboard.press("Escape");
+    await page.mouse.up();
+
+    const logEntries = await getDragLogEntries(page);
+    const dragEnd = logEntries[logEntries.length - 1];
+    expect(dragEnd.type).toBe("onDragEnd");
+    expect(dragEnd.layout).toEqual([50, 50]);
+  });
+
+  test("should be called when the handle is resized with the keyboard", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    await resizeHandle.focus();
+    await page.keyboard.down("ArrowLeft");
+
+    let logEntries = await getDragLogEntries(page);
+    expect(logEntries.map(({ type }) => type)).toEqual([
+      "onDragStart",
+      "onDrag",
+    ]);
+    expect(logEntries[0].inputType).toBe("keyboard");
+
+    // The drag should end once the key is released
+    await page.keyboard.up("ArrowLeft");
+
+    logEntries = await getDragLogEntries(page);
+    expect(logEntries.map(({ type }) => type)).toEqual([
+      "onDragStart",
+      "onDrag",
+      "onDragEnd",
+    ]);
+    expect(logEntries[2].layout[0]).toBeLessThan(50);
+  });
+
+  test("should not be called for key presses that don't resize the panels", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    // Vertical arrow keys don't resize horizontal groups
+    await resizeHandle.focus();
+    await page.keyboard.press("ArrowUp");
+    await page.keyboard.press("ArrowDown");
+    expect(await getDragLogEntries(page)).toEqual([]);
+
+    await page.keyboard.press("End");
+    expect((await getDragLogEntries(page)).map(({ type }) => type)).toEqual([
+      "onDragStart",
+      "onDrag",
+      "onDragEnd",
+    ]);
+
+    // Panels that have already been resized as far as they can go
+    await clearLogEntries(page);
+    await page.keyboard.press("End");
+    await page.keyboard.press("ArrowRight");
+    expect(await getDragLogEntries(page)).toEqual([]);
+  });
+});
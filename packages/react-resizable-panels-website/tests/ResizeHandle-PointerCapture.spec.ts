@@ -0,0 +1,164 @@
+import { expect, Page, test } from "@playwright/test";
+import { createElement } from "react";
+import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
+
+import { PanelResizeHandleDraggingLogEntry } from "../src/routes/examples/types";
+
+import { clearLogEntries, getLogEntries } from "./utils/debug";
+import { verifyPanelSize } from "./utils/panels";
+import { goToUrl } from "./utils/url";
+
+async function openPage(page: Page, disabled = false) {
+  await goToUrl(
+    page,
+    createElement(
+      PanelGroup,
+      { direction: "horizontal", id: "group" },
+      createElement(Panel, { defaultSize: 50, id: "left", minSize: 10 }),
+      createElement(PanelResizeHandle, { disabled, id: "resize-handle" }),
+      createElement(Panel, { defaultSize: 50, id: "right", minSize: 10 })
+    )
+  );
+
+  await clearLogEntries(page);
+}
+
+async function getDraggingStates(page: Page) {
+  const logEntries = await getLogEntries<PanelResizeHandleDraggingLogEntry>(
+    page,
+    "onDragging"
+  );
+
+  return logEntries.map(({ isDragging }) => isDragging);
+}
+
+// The resize handle captures the pointer when a drag starts,
+// so it keeps receiving pointer events wherever the pointer goes until it has been released.
+test.describe("PanelResizeHandle pointer capture", () => {
+  test.beforeEach(async ({ page }) => {
+    await openPage(page);
+  });
+
+  test("should keep resizing while the pointer is outside of the window", async ({
+    page,
+  }) => {
+    const leftPanel = page.locator('[data-panel-id="left"]');
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+
+    await page.mouse.move(pageX + 1000, pageY);
+    await verifyPanelSize(leftPanel, 90);
+
+    await page.mouse.move(-100, pageY + 1000);
+    await verifyPanelSize(leftPanel, 10);
+
+    // Releasing the pointer outside of the window should end the drag
+    await page.mouse.up();
+    expect(await getDraggingStates(page)).toEqual([true, false]);
+    await expect(resizeHandle).not.toHaveAttribute(
+      "data-resize-handle-active",
+      "pointer"
+    );
+
+    // The pointer is no longer captured once it has been released
+    await page.mouse.move(pageX, pageY);
+    await verifyPanelSize(leftPanel, 10);
+  });
+
+  test("should end the drag once the pointer has been released", async ({
+    page,
+  }) => {
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    // Clicking without moving the pointer
+    await page.mouse.move(bounds.x, bounds.y);
+    await page.mouse.down();
+    await page.mouse.up();
+
+    expect(await getDraggingStates(page)).toEqual([true, false]);
+  });
+});
+
+test.describe("PanelResizeHandle disabled", () => {
+  test.beforeEach(async ({ page }) => {
+    await openPage(page, true);
+  });
+
+  test("should not start dragging when the pointer is pressed", async ({
+    page,
+  }) => {
+    const leftPanel = page.locator('[data-panel-id="left"]');
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(pageX, pageY);
+    await page.mouse.down();
+    await page.mouse.move(pageX + 1000, pageY);
+    await page.mouse.up();
+
+    expect(await getDraggingStates(page)).toEqual([]);
+    await expect(resizeHandle).not.toHaveAttribute(
+      "data-resize-handle-active",
+      "pointer"
+    );
+    await verifyPanelSize(leftPanel, 50);
+
+    // Panels should still receive pointer events (they are disabled during drags)
+    await expect(leftPanel).not.toHaveCSS("pointer-events", "none");
+  });
+});
+
+test.describe("PanelResizeHandle touch input", () => {
+  test.use({ hasTouch: true });
+
+  test.beforeEach(async ({ page }) => {
+    await openPage(page);
+  });
+
+  test("should resize panels when dragged with a finger", async ({ page }) => {
+    const leftPanel = page.locator('[data-panel-id="left"]');
+    const resizeHandle = page.locator(
+      '[data-panel-resize-handle-id="resize-handle"]'
+    );
+
+    const bounds = (await resizeHandle.boundingBox())!;
+    const pageX = bounds.x + bounds.width / 2;
+    const pageY = bounds.y + bounds.height / 2;
+
+    // Playwright's touchscreen API only supports taps
+    const session = await page.context().newCDPSession(page);
+    await session.send("Input.dispatchTouchEvent", {
+      type: "touchStart",
+      touchPoints: [{ x: pageX, y: pageY }],
+    });
+    await session.send("Input.dispatchTouchEvent", {
+      type: "touchMove",
+      touchPoints: [{ x: pageX + 1000, y: pageY }],
+    });
+    await verifyPanelSize(leftPanel, 90);
+
+    await session.send("Input.dispatchTouchEvent", {
+      type: "touchEnd",
+      touchPoints: [],
+    });
+    expect(await getDraggingStates(page)).toEqual([true, false]);
+    await verifyPanelSize(leftPanel, 90);
+  });
+});
@@ -2,7 +2,9 @@ import { expect, test } from "@playwright/test";
 import { createElement } from "react";
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 
+import { verifyAriaValues } from "./utils/aria";
 import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
 
 test.describe("Resize handle", () => {
   test("should set 'data-resize-handle-active' attribute when active", async ({
@@ -70,4 +72,38 @@ test.describe("Resize handle", () => {
       await last.getAttribute("data-resize-handle-active")
     ).toBeNull();
   });
+
+  test("should be draggable from within its hit area margins", async ({
+    page,
+  }) => {
+    await goToUrl(
+      page,
+      createElement(
+        PanelGroup,
+        { direction: "horizontal" },
+        createElement(Panel, { defaultSize: 50, minSize: 10 }),
+        createElement(PanelResizeHandle, {
+          hitAreaMargins: { coarse: 15, fine: 10 },
+        }),
+        createElement(Panel, { defaultSize: 50, minSize: 10 })
+      )
+    );
+
+    // The hit area should not take up any space in the group
+    await verifySizes(page, 50, 50);
+
+    const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+    const bounds = (await resizeHandle.boundingBox())!;
+
+    // Start dragging just outside of the visible handle
+    const x = bounds.x - 8;
+    const y = bounds.y + bounds.height / 2;
+
+    await page.mouse.move(x, y);
+    await page.mouse.down();
+    await page.mouse.move(x - 40, y);
+    await page.mouse.up();
+
+    await verifyAriaValues(resizeHandle, { now: 40 });
+  });
 });
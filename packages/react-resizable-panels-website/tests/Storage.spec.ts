@@ -1,9 +1,10 @@
-import { test } from "@playwright/test";
+import { expect, Page, test } from "@playwright/test";
 import { createElement } from "react";
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 
 import { verifyAriaValues } from "./utils/aria";
 import { goToUrl } from "./utils/url";
+import { verifySizes } from "./utils/verify";
 
 const panelGroupABC = createElement(
   PanelGroup,
@@ -23,6 +24,16 @@ const panelGroupBC = createElement(
   createElement(Panel, { minSize: 10, order: 3 })
 );
 
+function createPanelGroupWithIds(minSize: number) {
+  return createElement(
+    PanelGroup,
+    { autoSaveId: "test-group", direction: "horizontal" },
+    createElement(Panel, { id: "left", minSize }),
+    createElement(PanelResizeHandle),
+    createElement(Panel, { id: "right", minSize })
+  );
+}
+
 const panelGroupAB = createElement(
   PanelGroup,
   { autoSaveId: "test-group", direction: "horizontal" },
@@ -138,5 +149,356 @@ test.describe("Storage", () => {
         now: 90,
       });
     });
+
+    test("should restore layouts by panel id", async ({ page }) => {
+      await goToUrl(page, createPanelGroupWithIds(10));
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await resizeHandle.focus();
+      await page.keyboard.press("Shift+ArrowLeft");
+      await verifyAriaValues(resizeHandle, {
+        now: 40,
+      });
+
+      // Wait for localStorage write debounce
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      // Changing panel constraints should not discard the saved layout
+      await goToUrl(page, createPanelGroupWithIds(20));
+      await verifyAriaValues(resizeHandle, {
+        now: 40,
+      });
+
+      // Panels with different ids (but the same constraints) should not share it
+      await goToUrl(
+        page,
+        createElement(
+          PanelGroup,
+          { autoSaveId: "test-group", direction: "horizontal" },
+          createElement(Panel, { id: "left", minSize: 10 }),
+          createElement(PanelResizeHandle),
+          createElement(Panel, { id: "other", minSize: 10 })
+        )
+      );
+      await verifyAriaValues(resizeHandle, {
+        now: 50,
+      });
+    });
+
+    test("should remember the size of collapsed panels after a reload", async ({
+      page,
+    }) => {
+      await goToUrl(
+        page,
+        createElement(
+          PanelGroup,
+          { autoSaveId: "test-group", direction: "horizontal" },
+          createElement(Panel, {
+            collapsible: true,
+            defaultSize: 40,
+            id: "left",
+            minSize: 10,
+          }),
+          createElement(PanelResizeHandle),
+          createElement(Panel, { id: "right", minSize: 10 })
+        )
+      );
+
+      const collapseButton = page.locator("#collapseButton");
+      const expandButton = page.locator("#expandButton");
+      const panelIdSelect = page.locator("#panelIdSelect");
+
+      await panelIdSelect.selectOption("left");
+      await collapseButton.click();
+      await verifySizes(page, 0, 100);
+
+      // Wait for localStorage write debounce
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      await page.reload();
+      await verifySizes(page, 0, 100);
+
+      // The panel should expand to its size before it was collapsed (rather than its min size)
+      await panelIdSelect.selectOption("left");
+      await expandButton.click();
+      await verifySizes(page, 40, 60);
+    });
+
+    test("should migrate layouts saved in the legacy format", async ({
+      page,
+    }) => {
+      // Layouts are saved before the group has been rendered
+      await goToUrl(page, null);
+
+      await page.evaluate(() => {
+        localStorage.setItem(
+          "PanelGroup:sizes:test-group",
+          JSON.stringify({ "1:10,2:10": [25, 75] })
+        );
+      });
+
+      await goToUrl(page, panelGroupAB);
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await verifyAriaValues(resizeHandle, {
+        now: 25,
+      });
+
+      // Wait for localStorage write debounce
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      const serialized = await page.evaluate(() =>
+        localStorage.getItem("PanelGroup:layout:test-group")
+      );
+      expect(JSON.parse(serialized!)).toEqual({
+        layouts: {
+          "1:10,2:10": {
+            collapsed: [false, false],
+            expandToSizes: [null, null],
+            sizes: [25, 75],
+          },
+        },
+        version: 1,
+      });
+
+      // The legacy layout is no longer needed once it has been migrated
+      const legacySerialized = await page.evaluate(() =>
+        localStorage.getItem("PanelGroup:sizes:test-group")
+      );
+      expect(legacySerialized).toBeNull();
+    });
+
+    test("should not overwrite saved layouts that can't be read", async ({
+      page,
+    }) => {
+      await goToUrl(page, null);
+
+      // e.g. layouts saved by a newer version of this library
+      const unsupported = JSON.stringify({ layouts: {}, version: 999 });
+      await page.evaluate((unsupported) => {
+        localStorage.setItem("PanelGroup:layout:test-group", unsupported);
+      }, unsupported);
+
+      await goToUrl(page, panelGroupAB);
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await verifyAriaValues(resizeHandle, {
+        now: 50,
+      });
+
+      await resizeHandle.focus();
+      await page.keyboard.press("Home");
+      await verifyAriaValues(resizeHandle, {
+        now: 10,
+      });
+
+      // Wait for localStorage write debounce
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      const serialized = await page.evaluate(() =>
+        localStorage.getItem("PanelGroup:layout:test-group")
+      );
+      expect(serialized).toBe(unsupported);
+    });
+
+    test("should sync layouts across tabs if syncAcrossTabs prop has been provided", async ({
+      context,
+      page,
+    }) => {
+      const panelGroup = createElement(
+        PanelGroup,
+        {
+          autoSaveId: "test-group",
+          direction: "horizontal",
+          syncAcrossTabs: true,
+        },
+        createElement(Panel, { id: "left", minSize: 10 }),
+        createElement(PanelResizeHandle),
+        createElement(Panel, { id: "right", minSize: 10 })
+      );
+
+      await goToUrl(page, panelGroup);
+
+      const otherPage = await context.newPage();
+      await goToUrl(otherPage, panelGroup);
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await resizeHandle.focus();
+      await page.keyboard.press("Home");
+      await verifyAriaValues(resizeHandle, {
+        now: 10,
+      });
+
+      // Wait for localStorage write debounce
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      await verifyAriaValues(
+        otherPage.locator("[data-panel-resize-handle-id]"),
+        {
+          now: 10,
+        }
+      );
+    });
+  });
+
+  test.describe("asynchronous storage", () => {
+    // Each call to the (localStorage backed) storage resolves after this delay;
+    // items are stored with an "async:" prefix (see the EndToEndTesting route).
+    const storageDelay = 1000;
+
+    function createPanelGroup(fallbackLayout: number[] | null) {
+      return createElement(
+        PanelGroup,
+        { autoSaveId: "test-group", direction: "horizontal", fallbackLayout },
+        createElement(Panel, { id: "left", minSize: 10 }),
+        createElement(PanelResizeHandle),
+        createElement(Panel, { id: "right", minSize: 10 })
+      );
+    }
+
+    function getSavedSizes(page: Page): Promise<number[] | null> {
+      return page.evaluate(() => {
+        const serialized = localStorage.getItem(
+          "async:PanelGroup:layout:test-group"
+        );
+        return serialized
+          ? JSON.parse(serialized).layouts["id:left,id:right"].sizes
+          : null;
+      });
+    }
+
+    test.beforeEach(async ({ page }) => {
+      await goToUrl(page, null);
+
+      await page.evaluate(() => {
+        localStorage.setItem(
+          "async:PanelGroup:layout:test-group",
+          JSON.stringify({
+            layouts: {
+              "id:left,id:right": {
+                collapsed: [false, false],
+                expandToSizes: [null, null],
+                sizes: [25, 75],
+              },
+            },
+            version: 1,
+          })
+        );
+      });
+    });
+
+    test("should render the fallback layout until the saved layout has loaded", async ({
+      page,
+    }) => {
+      await goToUrl(page, createPanelGroup([40, 60]), { storageDelay });
+
+      const panelGroup = page.locator("[data-panel-group]");
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await verifyAriaValues(resizeHandle, {
+        now: 40,
+      });
+      expect(await panelGroup.getAttribute("data-panel-group-loading")).toBe(
+        ""
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, storageDelay * 1.5));
+
+      await verifyAriaValues(resizeHandle, {
+        now: 25,
+      });
+      expect(
+        await panelGroup.getAttribute("data-panel-group-loading")
+      ).toBeNull();
+    });
+
+    test("should render the default layout if no fallback layout has been provided", async ({
+      page,
+    }) => {
+      await goToUrl(page, createPanelGroup(null), { storageDelay });
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await verifyAriaValues(resizeHandle, {
+        now: 50,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, storageDelay * 1.5));
+
+      await verifyAriaValues(resizeHandle, {
+        now: 25,
+      });
+    });
+
+    test("should keep changes made while the saved layout is loading", async ({
+      page,
+    }) => {
+      await goToUrl(page, createPanelGroup([40, 60]), { storageDelay });
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await resizeHandle.focus();
+      await page.keyboard.press("Home");
+      await verifyAriaValues(resizeHandle, {
+        now: 10,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, storageDelay * 1.5));
+
+      await verifyAriaValues(resizeHandle, {
+        now: 10,
+      });
+
+      // Nothing should have been saved while the saved layout was loading
+      expect(await getSavedSizes(page)).toEqual([25, 75]);
+
+      // Wait for the debounced save to read (and then write) the stored layouts
+      await new Promise((resolve) => setTimeout(resolve, storageDelay * 2.5));
+
+      expect(await getSavedSizes(page)).toEqual([10, 90]);
+    });
+
+    test("should sync layouts across tabs using the storage subscribe method", async ({
+      context,
+      page,
+    }) => {
+      const panelGroup = createElement(
+        PanelGroup,
+        {
+          autoSaveId: "test-group",
+          direction: "horizontal",
+          syncAcrossTabs: true,
+        },
+        createElement(Panel, { id: "left", minSize: 10 }),
+        createElement(PanelResizeHandle),
+        createElement(Panel, { id: "right", minSize: 10 })
+      );
+
+      await goToUrl(page, panelGroup, { storageDelay });
+
+      const otherPage = await context.newPage();
+      await goToUrl(otherPage, panelGroup, { storageDelay });
+
+      // Wait for the saved layout to load in both tabs
+      await new Promise((resolve) => setTimeout(resolve, storageDelay * 1.5));
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      const otherResizeHandle = otherPage.locator(
+        "[data-panel-resize-handle-id]"
+      );
+      await verifyAriaValues(otherResizeHandle, {
+        now: 25,
+      });
+
+      await resizeHandle.focus();
+      await page.keyboard.press("Home");
+      await verifyAriaValues(resizeHandle, {
+        now: 10,
+      });
+
+      // Wait for the debounced save (and for the other tab to load the saved layout)
+      await new Promise((resolve) => setTimeout(resolve, storageDelay * 4.5));
+
+      await verifyAriaValues(otherResizeHandle, {
+        now: 10,
+      });
+    });
   });
 });
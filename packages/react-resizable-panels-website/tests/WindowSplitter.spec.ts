@@ -154,6 +154,89 @@ test.describe("Window Splitter", () => {
       });
     });
 
+    test("horizontal lists (RTL)", async ({ page }) => {
+      await goToUrl(
+        page,
+        createElement(
+          PanelGroup,
+          { direction: "horizontal", style: { direction: "rtl" } },
+          createElement(Panel, { defaultSize: 40, maxSize: 70, minSize: 20 }),
+          createElement(PanelResizeHandle),
+          createElement(Panel, { minSize: 10 })
+        )
+      );
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await resizeHandle.focus();
+
+      await verifyAriaValues(resizeHandle, {
+        now: 40,
+      });
+
+      // The first panel is on the right, so moving the handle left grows it
+      await page.keyboard.press("ArrowLeft");
+      await verifyAriaValues(resizeHandle, {
+        now: 41,
+      });
+
+      await page.keyboard.press("ArrowRight");
+      await page.keyboard.press("ArrowRight");
+      await verifyAriaValues(resizeHandle, {
+        now: 39,
+      });
+
+      // Home and End should not be mirrored
+      await page.keyboard.press("End");
+      await verifyAriaValues(resizeHandle, {
+        now: 70,
+      });
+
+      await page.keyboard.press("Home");
+      await verifyAriaValues(resizeHandle, {
+        now: 20,
+      });
+    });
+
+    test("horizontal lists (vertical writing mode)", async ({ page }) => {
+      await goToUrl(
+        page,
+        createElement(
+          PanelGroup,
+          {
+            direction: "horizontal",
+            style: { height: "100%", writingMode: "vertical-lr" },
+          },
+          createElement(Panel, { minSize: 10 }),
+          createElement(PanelResizeHandle),
+          createElement(Panel, { minSize: 10 })
+        )
+      );
+
+      const resizeHandle = page.locator("[data-panel-resize-handle-id]");
+      await resizeHandle.focus();
+
+      await verifyAriaValues(resizeHandle, {
+        now: 50,
+      });
+
+      // Panels are laid out top to bottom, so the up and down arrows apply
+      await page.keyboard.press("ArrowDown");
+      await verifyAriaValues(resizeHandle, {
+        now: 51,
+      });
+
+      await page.keyboard.press("ArrowUp");
+      await page.keyboard.press("ArrowUp");
+      await verifyAriaValues(resizeHandle, {
+        now: 49,
+      });
+
+      await page.keyboard.press("ArrowRight");
+      await verifyAriaValues(resizeHandle, {
+        now: 49,
+      });
+    });
+
     test("vertical lists", async ({ page }) => {
       await goToDefaultUrl(page, "vertical");
 
@@ -5,12 +5,35 @@ import { UrlPanelGroupToEncodedString } from "../../src/utils/UrlData";
 
 export async function goToUrl(
   page: Page,
-  element: ReactElement<PanelGroupProps> | null
+  element: ReactElement<PanelGroupProps> | null,
+  {
+    container = null,
+    containerCount = 1,
+    scale = 1,
+    storageDelay = null,
+  }: {
+    container?: "iframe" | "shadow-root" | null;
+    containerCount?: number;
+    scale?: number;
+    storageDelay?: number | null;
+  } = {}
 ) {
   const encodedString = element ? UrlPanelGroupToEncodedString(element) : "";
 
   const url = new URL("http://localhost:1234/__e2e");
   url.searchParams.set("urlPanelGroup", encodedString);
+  if (container !== null) {
+    url.searchParams.set("container", container);
+  }
+  if (containerCount !== 1) {
+    url.searchParams.set("containerCount", "" + containerCount);
+  }
+  if (scale !== 1) {
+    url.searchParams.set("scale", "" + scale);
+  }
+  if (storageDelay !== null) {
+    url.searchParams.set("storageDelay", "" + storageDelay);
+  }
 
   // Uncomment when testing for easier repros
   // console.log(url.toString());
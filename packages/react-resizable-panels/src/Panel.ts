@@ -19,6 +19,8 @@ import {
   PanelData,
   PanelOnCollapse,
   PanelOnResize,
+  PanelResizeBehavior,
+  PanelSize,
   Units,
 } from "./types";
 import { getAvailableGroupSizePixels } from "./utils/group";
@@ -26,15 +28,19 @@ import { getAvailableGroupSizePixels } from "./utils/group";
 export type PanelProps = {
   children?: ReactNode;
   className?: string;
-  collapsedSize?: number;
+  collapsedSize?: PanelSize;
   collapsible?: boolean;
-  defaultSize?: number | null;
+  defaultSize?: PanelSize | null;
   id?: string | null;
-  maxSize?: number | null;
-  minSize?: number;
+  maxSize?: PanelSize | null;
+  minSize?: PanelSize;
   onCollapse?: PanelOnCollapse | null;
   onResize?: PanelOnResize | null;
   order?: number | null;
+  resizeBehavior?: PanelResizeBehavior;
+  shrinkPriority?: number;
+  snapPoints?: PanelSize[] | null;
+  snapThreshold?: PanelSize | null;
   style?: CSSProperties;
   tagName?: ElementType;
 };
@@ -61,6 +67,10 @@ function PanelWithForwardedRef({
   onCollapse = null,
   onResize = null,
   order = null,
+  resizeBehavior = "proportional",
+  shrinkPriority = 1,
+  snapPoints = null,
+  snapThreshold = null,
   style: styleFromProps = {},
   tagName: Type = "div",
 }: PanelProps & {
@@ -108,22 +118,20 @@ function PanelWithForwardedRef({
 
   const style = getPanelStyle(panelId, defaultSize);
 
-  const committedValuesRef = useRef<{
-    size: number;
-  }>({
-    size: parseSizeFromStyle(style),
-  });
-
   const panelDataRef = useRef<{
     callbacksRef: PanelCallbackRef;
-    collapsedSize: number;
+    collapsedSize: PanelSize;
     collapsible: boolean;
-    defaultSize: number | null;
+    defaultSize: PanelSize | null;
     id: string;
     idWasAutoGenerated: boolean;
-    maxSize: number | null;
-    minSize: number;
+    maxSize: PanelSize | null;
+    minSize: PanelSize;
     order: number | null;
+    resizeBehavior: PanelResizeBehavior;
+    shrinkPriority: number;
+    snapPoints: PanelSize[];
+    snapThreshold: PanelSize | null;
   }>({
     callbacksRef,
     collapsedSize,
@@ -134,11 +142,13 @@ function PanelWithForwardedRef({
     maxSize,
     minSize,
     order,
+    resizeBehavior,
+    shrinkPriority,
+    snapPoints: snapPoints ?? [],
+    snapThreshold,
   });
 
   useIsomorphicLayoutEffect(() => {
-    committedValuesRef.current.size = parseSizeFromStyle(style);
-
     panelDataRef.current.callbacksRef = callbacksRef;
     panelDataRef.current.collapsedSize = collapsedSize;
     panelDataRef.current.collapsible = collapsible;
@@ -146,8 +156,12 @@ function PanelWithForwardedRef({
     panelDataRef.current.id = panelId;
     panelDataRef.current.idWasAutoGenerated = idFromProps == null;
     panelDataRef.current.maxSize = maxSize;
-    panelDataRef.current.minSize = minSize as number;
+    panelDataRef.current.minSize = minSize as PanelSize;
     panelDataRef.current.order = order;
+    panelDataRef.current.resizeBehavior = resizeBehavior;
+    panelDataRef.current.shrinkPriority = shrinkPriority;
+    panelDataRef.current.snapPoints = snapPoints ?? [];
+    panelDataRef.current.snapThreshold = snapThreshold;
   });
 
   useIsomorphicLayoutEffect(() => {
@@ -164,7 +178,7 @@ function PanelWithForwardedRef({
       collapse: () => collapsePanel(panelId),
       expand: () => expandPanel(panelId),
       getCollapsed() {
-        return committedValuesRef.current.size === 0;
+        return getPanelSize(panelId, "percentages") === 0;
       },
       getId() {
         return panelId;
@@ -200,13 +214,3 @@ export const Panel = forwardRef<ImperativePanelHandle, PanelProps>(
 
 PanelWithForwardedRef.displayName = "Panel";
 Panel.displayName = "forwardRef(Panel)";
-
-// HACK
-function parseSizeFromStyle(style: CSSProperties): number {
-  const { flexGrow } = style;
-  if (typeof flexGrow === "string") {
-    return parseFloat(flexGrow);
-  } else {
-    return flexGrow as number;
-  }
-}
@@ -1,20 +1,37 @@
 import { CSSProperties, createContext } from "./vendor/react";
 
-import { PanelData, ResizeEvent, ResizeHandler, Units } from "./types";
+import {
+  PanelData,
+  PanelResizeHandleCallbackRef,
+  PanelResizeHandleDoubleClickAction,
+  PanelSize,
+  ResizeEvent,
+  ResizeHandler,
+  Units,
+} from "./types";
 
 export const PanelGroupContext = createContext<{
   activeHandleId: string | null;
+  applyDoubleClickAction: (
+    handleId: string,
+    action: PanelResizeHandleDoubleClickAction | null
+  ) => [idBefore: string, idAfter: string] | null;
+  cancelDragging: () => void;
   collapsePanel: (id: string) => void;
   direction: "horizontal" | "vertical";
   expandPanel: (id: string) => void;
   getPanelSize: (id: string, units?: Units) => number;
-  getPanelStyle: (id: string, defaultSize: number | null) => CSSProperties;
+  getPanelStyle: (id: string, defaultSize: PanelSize | null) => CSSProperties;
   groupId: string;
   registerPanel: (id: string, panel: PanelData) => void;
-  registerResizeHandle: (id: string) => ResizeHandler;
+  registerResizeHandle: (
+    id: string,
+    callbacksRef: PanelResizeHandleCallbackRef
+  ) => ResizeHandler;
   resizePanel: (id: string, percentage: number, units?: Units) => void;
   startDragging: (id: string, event: ResizeEvent) => void;
   stopDragging: () => void;
+  stopKeyboardDragging: () => void;
   unregisterPanel: (id: string) => void;
   units: Units;
 } | null>(null);
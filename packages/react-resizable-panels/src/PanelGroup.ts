@@ -22,41 +22,69 @@ import { PanelGroupContext } from "./PanelContexts";
 import {
   Direction,
   PanelData,
+  PanelGroupCascadeStrategy,
   PanelGroupOnLayout,
+  PanelGroupOnLayoutChange,
   PanelGroupStorage,
+  PanelGroupTransition,
+  PanelResizeHandleCallbackRef,
+  PanelResizeHandleDoubleClickAction,
+  PanelResizeHandleDragInputType,
+  PanelResizeHandleDragState,
+  PanelSize,
   ResizeEvent,
   Units,
 } from "./types";
+import { animateLayout, prefersReducedMotion } from "./utils/animation";
 import { areEqual } from "./utils/arrays";
 import {
   getDragOffset,
   getMovement,
-  isMouseEvent,
-  isTouchEvent,
+  isKeyDown,
+  isPointerEvent,
+  getPhysicalDirection,
 } from "./utils/coordinates";
 import { resetGlobalCursorStyle, setGlobalCursorStyle } from "./utils/cursor";
 import debounce from "./utils/debounce";
+import scheduleIdleCallback from "./utils/idle";
 import {
-  adjustByDelta,
-  calculateDefaultLayout,
+  adjustPanelGroupByDelta,
   callPanelCallbacks,
-  getAvailableGroupSizePixels,
   getBeforeAndAfterIds,
   getFlexGrow,
-  getPanelGroup,
+  getGroupAvailableSizePixels,
+  getGroupSizePixels,
+  getPanelConstraints,
   getResizeHandle,
   getResizeHandlePanelIds,
   panelsMapToSortedArray,
-  validatePanelGroupLayout,
+  setPanelElementSizes,
+  usesFixedResizeBehavior,
+  usesPixelConstraints,
   validatePanelProps,
 } from "./utils/group";
-import { loadPanelLayout, savePanelGroupLayout } from "./utils/serialization";
+import {
+  adjustLayoutForGroupResize,
+  calculateDefaultLayout,
+  convertPercentageToPixels,
+  convertPixelsToPercentage,
+  normalizePanelConstraints,
+  parsePanelSize,
+  validatePanelGroupLayout,
+} from "./utils/layout";
+import { isPromise, whenResolved } from "./utils/promise";
+import {
+  isPanelGroupStorageKey,
+  loadPanelLayout,
+  PanelGroupLayoutState,
+  savePanelGroupLayout,
+} from "./utils/serialization";
 
 const debounceMap: {
   [key: string]: (
     autoSaveId: string,
     panels: PanelData[],
-    sizes: number[],
+    layoutState: PanelGroupLayoutState,
     storage: PanelGroupStorage
   ) => void;
 } = {};
@@ -72,6 +100,9 @@ function initializeDefaultStorage(storageObject: PanelGroupStorage) {
       storageObject.getItem = (name: string) => {
         return localStorage.getItem(name);
       };
+      storageObject.removeItem = (name: string) => {
+        localStorage.removeItem(name);
+      };
       storageObject.setItem = (name: string, value: string) => {
         localStorage.setItem(name, value);
       };
@@ -82,6 +113,7 @@ function initializeDefaultStorage(storageObject: PanelGroupStorage) {
     console.error(error);
 
     storageObject.getItem = () => null;
+    storageObject.removeItem = () => {};
     storageObject.setItem = () => {};
   }
 }
@@ -91,6 +123,10 @@ const defaultStorage: PanelGroupStorage = {
     initializeDefaultStorage(defaultStorage);
     return defaultStorage.getItem(name);
   },
+  removeItem: (name: string) => {
+    initializeDefaultStorage(defaultStorage);
+    defaultStorage.removeItem!(name);
+  },
   setItem: (name: string, value: string) => {
     initializeDefaultStorage(defaultStorage);
     defaultStorage.setItem(name, value);
@@ -98,10 +134,14 @@ const defaultStorage: PanelGroupStorage = {
 };
 
 export type CommittedValues = {
+  cascadeStrategy: PanelGroupCascadeStrategy;
   direction: Direction;
+  dragPreview: boolean;
   id: string;
+  isControlled: boolean;
   panels: Map<string, PanelData>;
   sizes: number[];
+  transition: PanelGroupTransition | null;
   units: Units;
 };
 
@@ -122,19 +162,27 @@ export type InitialDragState = {
 
 export type PanelGroupProps = {
   autoSaveId?: string;
+  cascadeStrategy?: PanelGroupCascadeStrategy;
   children?: ReactNode;
   className?: string;
   direction: Direction;
   disablePointerEventsDuringResize?: boolean;
+  dragPreview?: boolean;
+  fallbackLayout?: number[] | null;
   id?: string | null;
+  layout?: number[] | null;
   onLayout?: PanelGroupOnLayout;
+  onLayoutChange?: PanelGroupOnLayoutChange;
   storage?: PanelGroupStorage;
   style?: CSSProperties;
+  syncAcrossTabs?: boolean;
   tagName?: ElementType;
+  transition?: PanelGroupTransition | null;
   units?: Units;
 };
 
 export type ImperativePanelGroupHandle = {
+  cancelDrag: () => void;
   getId: () => string;
   getLayout: (units?: Units) => number[];
   setLayout: (panelSizes: number[], units?: Units) => void;
@@ -142,22 +190,31 @@ export type ImperativePanelGroupHandle = {
 
 function PanelGroupWithForwardedRef({
   autoSaveId,
+  cascadeStrategy = "nearest",
   children = null,
   className: classNameFromProps = "",
   direction,
   disablePointerEventsDuringResize = false,
+  dragPreview = false,
+  fallbackLayout = null,
   forwardedRef,
   id: idFromProps = null,
+  layout: layoutFromProps = null,
   onLayout,
+  onLayoutChange,
   storage = defaultStorage,
   style: styleFromProps = {},
+  syncAcrossTabs = false,
   tagName: Type = "div",
+  transition = null,
   units = "percentages",
 }: PanelGroupProps & {
   forwardedRef: ForwardedRef<ImperativePanelGroupHandle>;
 }) {
   const groupId = useUniqueId(idFromProps);
 
+  const panelGroupElementRef = useRef<HTMLElement>(null);
+
   const [activeHandleId, setActiveHandleId] = useState<string | null>(null);
   const [panels, setPanels] = useState<PanelDataMap>(new Map());
 
@@ -166,6 +223,16 @@ function PanelGroupWithForwardedRef({
   // This has the benefit of causing force-collapsed panels to spring back open if drag is reversed.
   const initialDragStateRef = useRef<InitialDragState | null>(null);
 
+  // Callbacks for the resize handle currently being dragged (by pointer or keyboard),
+  // along with the state they are notified with.
+  const activeDragRef = useRef<{
+    callbacksRef: PanelResizeHandleCallbackRef;
+    dragState: PanelResizeHandleDragState;
+  } | null>(null);
+  const resizeHandleCallbacksRef = useRef<
+    Map<string, PanelResizeHandleCallbackRef>
+  >(new Map());
+
   const devWarningsRef = useRef<{
     didLogDefaultSizeWarning: boolean;
     didLogIdAndOrderWarning: boolean;
@@ -181,15 +248,29 @@ function PanelGroupWithForwardedRef({
   // Use a ref to guard against users passing inline props
   const callbacksRef = useRef<{
     onLayout: PanelGroupOnLayout | undefined;
-  }>({ onLayout });
+    onLayoutChange: PanelGroupOnLayoutChange | undefined;
+  }>({ onLayout, onLayoutChange });
   useEffect(() => {
     callbacksRef.current.onLayout = onLayout;
+    callbacksRef.current.onLayoutChange = onLayoutChange;
   });
 
   const panelIdToLastNotifiedSizeMapRef = useRef<Record<string, number>>({});
 
-  // 0-1 values representing the relative size of each panel.
-  const [sizes, setSizes] = useState<number[]>([]);
+  // 0-100 values representing the relative size of each panel.
+  // Controlled groups render the layout passed in by their parent instead.
+  const [uncontrolledSizes, setUncontrolledSizes] = useState<number[]>([]);
+  const isControlled = layoutFromProps != null;
+  const sizes = layoutFromProps ?? uncontrolledSizes;
+
+  // Layouts loaded from asynchronous storage aren't available during the initial render;
+  // stored layouts shouldn't be overwritten until they have been loaded.
+  const pendingLayoutLoadRef = useRef<Promise<unknown> | null>(null);
+  const [isLayoutLoading, setIsLayoutLoading] = useState(false);
+
+  // Most recent layout loaded asynchronously (or applied from another tab, see syncAcrossTabs);
+  // it is already in storage, so it doesn't need to be saved again.
+  const restoredSizesRef = useRef<number[] | null>(null);
 
   // Used to support imperative collapse/expand API.
   const panelSizeBeforeCollapse = useRef<Map<string, number>>(new Map());
@@ -198,77 +279,452 @@ function PanelGroupWithForwardedRef({
 
   // Store committed values to avoid unnecessarily re-running memoization/effects functions.
   const committedValuesRef = useRef<CommittedValues>({
+    cascadeStrategy,
     direction,
+    dragPreview,
     id: groupId,
+    isControlled,
     panels,
     sizes,
+    transition,
     units,
   });
 
+  // All layout changes are applied through this method.
+  // Controlled groups propose the change to their parent instead, which may veto or transform it.
+  const setSizes = useCallback((nextSizes: number[]) => {
+    const { isControlled } = committedValuesRef.current;
+    if (isControlled) {
+      const { onLayoutChange } = callbacksRef.current;
+      if (onLayoutChange) {
+        onLayoutChange(nextSizes);
+      }
+    } else {
+      setUncontrolledSizes(nextSizes);
+    }
+  }, []);
+
+  // While dragging, layouts are written directly to Panel elements (rather than re-rendering every Panel each frame).
+  // React state is reconciled once the drag ends (or the browser is idle).
+  const liveSizesRef = useRef<number[] | null>(null);
+  const cancelReconcileLiveSizesRef = useRef<(() => void) | null>(null);
+
+  // onLayout is called for live layouts as they are applied;
+  // this avoids calling it a second time once React state has been reconciled.
+  const lastNotifiedLiveSizesRef = useRef<number[] | null>(null);
+
+  // Used for layout changes made in response to user interactions or imperative API calls.
+  const commitSizes = useCallback(
+    (nextSizes: number[]) => {
+      const { isControlled, panels, units } = committedValuesRef.current;
+
+      // This layout supersedes any live (uncommitted) one.
+      // Panel elements are updated directly in case React state already matches it.
+      if (liveSizesRef.current !== null) {
+        liveSizesRef.current = null;
+
+        const cancel = cancelReconcileLiveSizesRef.current;
+        if (cancel !== null) {
+          cancelReconcileLiveSizesRef.current = null;
+          cancel();
+        }
+
+        setPanelElementSizes(panelGroupElementRef.current!, panels, nextSizes);
+      }
+
+      // Changes made before React re-renders (e.g. a transition interrupting another one) should start from this layout.
+      // Controlled groups keep rendering the parent's layout until it is passed back in.
+      if (!isControlled) {
+        committedValuesRef.current.sizes = nextSizes;
+      }
+
+      setSizes(nextSizes);
+
+      // If resize change handlers have been declared, this is the time to call them.
+      // Trigger user callbacks after updating state, so that user code can override the sizes.
+      // Controlled groups wait to notify panels until the parent has re-rendered with the new layout.
+      if (!isControlled) {
+        const panelsArray = panelsMapToSortedArray(panels);
+
+        callPanelCallbacks(
+          panelsArray,
+          nextSizes,
+          panelIdToLastNotifiedSizeMapRef.current,
+          units,
+          getGroupSizePixels(panelGroupElementRef.current!, units, panelsArray)
+        );
+      }
+    },
+    [setSizes]
+  );
+
+  const reconcileLiveSizes = useCallback(() => {
+    const liveSizes = liveSizesRef.current;
+    if (liveSizes !== null) {
+      commitSizes(liveSizes);
+    }
+  }, [commitSizes]);
+
+  const setLiveSizes = useCallback(
+    (nextSizes: number[]) => {
+      const { panels, units } = committedValuesRef.current;
+
+      const panelGroupElement = panelGroupElementRef.current!;
+
+      liveSizesRef.current = nextSizes;
+
+      // Other code (e.g. the imperative API) should see the live layout
+      committedValuesRef.current.sizes = nextSizes;
+
+      setPanelElementSizes(panelGroupElement, panels, nextSizes);
+
+      const { onLayout } = callbacksRef.current;
+      if (onLayout) {
+        lastNotifiedLiveSizesRef.current = nextSizes;
+
+        onLayout(nextSizes);
+      }
+
+      const panelsArray = panelsMapToSortedArray(panels);
+
+      callPanelCallbacks(
+        panelsArray,
+        nextSizes,
+        panelIdToLastNotifiedSizeMapRef.current,
+        units,
+        getGroupSizePixels(panelGroupElement, units, panelsArray)
+      );
+
+      const cancel = cancelReconcileLiveSizesRef.current;
+      if (cancel !== null) {
+        cancel();
+      }
+      cancelReconcileLiveSizesRef.current = scheduleIdleCallback(
+        reconcileLiveSizes,
+        panelGroupElement.ownerDocument.defaultView!
+      );
+    },
+    [reconcileLiveSizes]
+  );
+
+  // Cancels an in-progress layout transition (if there is one);
+  // the group will remain at the most recently committed (intermediate) layout.
+  const cancelTransitionRef = useRef<(() => void) | null>(null);
+  const cancelTransition = useCallback(() => {
+    const cancel = cancelTransitionRef.current;
+    if (cancel !== null) {
+      cancelTransitionRef.current = null;
+      cancel();
+    }
+  }, []);
+
+  // Used for layout changes made through the imperative API.
+  // If a transition has been configured, intermediate layouts are committed each frame (so onResize is called during the animation).
+  const transitionSizes = useCallback(
+    (nextSizes: number[]) => {
+      const { sizes: prevSizes, transition } = committedValuesRef.current;
+
+      cancelTransition();
+
+      // Animation frames are requested from the window the group is rendered in
+      const targetWindow =
+        panelGroupElementRef.current!.ownerDocument.defaultView!;
+
+      if (transition == null || prefersReducedMotion(targetWindow)) {
+        commitSizes(nextSizes);
+      } else {
+        cancelTransitionRef.current = animateLayout({
+          from: prevSizes,
+          onFrame: commitSizes,
+          targetWindow,
+          to: nextSizes,
+          transition,
+        });
+      }
+    },
+    [cancelTransition, commitSizes]
+  );
+
+  useEffect(() => {
+    return () => {
+      cancelTransition();
+
+      // Layouts that finish loading after the group has unmounted should be ignored
+      pendingLayoutLoadRef.current = null;
+
+      const cancel = cancelReconcileLiveSizesRef.current;
+      if (cancel !== null) {
+        cancelReconcileLiveSizesRef.current = null;
+        cancel();
+      }
+    };
+  }, [cancelTransition]);
+
+  const notifyDrag = useCallback((layout: number[]) => {
+    const activeDrag = activeDragRef.current;
+    if (activeDrag === null) {
+      return;
+    }
+
+    activeDrag.dragState = { ...activeDrag.dragState, layout };
+
+    const { onDrag } = activeDrag.callbacksRef.current!;
+    if (onDrag) {
+      onDrag(activeDrag.dragState);
+    }
+  }, []);
+
+  // Drags are sometimes reverted (e.g. cancelled);
+  // if a final layout is provided, it will be reported instead of the most recent one.
+  const notifyDragEnd = useCallback((layout: number[] | null) => {
+    const activeDrag = activeDragRef.current;
+    if (activeDrag === null) {
+      return;
+    }
+
+    activeDragRef.current = null;
+
+    const { callbacksRef, dragState } = activeDrag;
+
+    const { onDragEnd } = callbacksRef.current!;
+    if (onDragEnd) {
+      onDragEnd(layout === null ? dragState : { ...dragState, layout });
+    }
+  }, []);
+
+  const notifyDragStart = useCallback(
+    (handleId: string, inputType: PanelResizeHandleDragInputType) => {
+      const activeDrag = activeDragRef.current;
+      if (activeDrag !== null) {
+        const { dragState } = activeDrag;
+        if (
+          dragState.handleId === handleId &&
+          dragState.inputType === inputType
+        ) {
+          return;
+        }
+
+        notifyDragEnd(null);
+      }
+
+      const callbacksRef = resizeHandleCallbacksRef.current.get(handleId);
+      if (callbacksRef == null) {
+        return;
+      }
+
+      const { panels, sizes } = committedValuesRef.current;
+
+      const [idBefore, idAfter] = getResizeHandlePanelIds(
+        panelGroupElementRef.current!,
+        handleId,
+        panelsMapToSortedArray(panels)
+      );
+      if (idBefore == null || idAfter == null) {
+        return;
+      }
+
+      const dragState: PanelResizeHandleDragState = {
+        handleId,
+        initialLayout: sizes,
+        inputType,
+        layout: sizes,
+        panelIds: [idBefore, idAfter],
+      };
+
+      activeDragRef.current = { callbacksRef, dragState };
+
+      const { onDragStart } = callbacksRef.current!;
+      if (onDragStart) {
+        onDragStart(dragState);
+      }
+    },
+    [notifyDragEnd]
+  );
+
+  // In drag preview mode, the layout is only committed once a drag ends.
+  // Until then, the resize handle being dragged is moved (via a CSS transform) to where it will end up.
+  const dragPreviewRef = useRef<{
+    handleElement: HTMLElement;
+    initialTransform: string;
+    sizes: number[];
+  } | null>(null);
+
+  const updateDragPreview = useCallback(
+    (handleId: string, previewSizes: number[]) => {
+      const handleElement = getResizeHandle(
+        handleId,
+        panelGroupElementRef.current!
+      );
+      if (handleElement == null) {
+        return;
+      }
+
+      const { direction, panels, sizes } = committedValuesRef.current;
+
+      if (dragPreviewRef.current === null) {
+        dragPreviewRef.current = {
+          handleElement,
+          initialTransform: handleElement.style.transform,
+          sizes: previewSizes,
+        };
+      } else {
+        dragPreviewRef.current.sizes = previewSizes;
+      }
+
+      const panelsArray = panelsMapToSortedArray(panels);
+      const [idBefore] = getResizeHandlePanelIds(
+        panelGroupElementRef.current!,
+        handleId,
+        panelsArray
+      );
+      const indexBefore = panelsArray.findIndex(
+        (panel) => panel.current.id === idBefore
+      );
+
+      // The handle moves by however much the panels before it have grown (or shrunk)
+      let delta = 0;
+      for (let index = 0; index <= indexBefore; index++) {
+        delta += previewSizes[index] - sizes[index];
+      }
+
+      const { direction: physicalDirection, isReversed } = getPhysicalDirection(
+        handleElement,
+        direction
+      );
+      const isHorizontal = physicalDirection === "horizontal";
+
+      let offset =
+        (delta / 100) *
+        getGroupAvailableSizePixels(panelGroupElementRef.current!);
+
+      // Support RTL layouts (and vertical writing modes)
+      if (isReversed) {
+        offset = -offset;
+      }
+
+      handleElement.style.transform = isHorizontal
+        ? `translateX(${offset}px)`
+        : `translateY(${offset}px)`;
+    },
+    []
+  );
+
+  // Removes the drag preview (if there is one) and returns the layout it was previewing.
+  const clearDragPreview = useCallback((): number[] | null => {
+    const dragPreview = dragPreviewRef.current;
+    if (dragPreview === null) {
+      return null;
+    }
+
+    dragPreviewRef.current = null;
+
+    const { handleElement, initialTransform, sizes } = dragPreview;
+    handleElement.style.transform = initialTransform;
+
+    return sizes;
+  }, []);
+
+  const commitDragPreview = useCallback(() => {
+    const previewSizes = clearDragPreview();
+    if (previewSizes !== null) {
+      commitSizes(previewSizes);
+    }
+  }, [clearDragPreview, commitSizes]);
+
+  // Reverts an in-progress drag to the layout from when it started.
+  // Panel callbacks will only be called for panels whose sizes have changed since they were last notified.
+  const cancelDragging = useCallback(() => {
+    const initialDragState = initialDragStateRef.current;
+    if (initialDragState === null) {
+      return;
+    }
+
+    const { sizes: prevSizes } = committedValuesRef.current;
+
+    resetGlobalCursorStyle();
+    setActiveHandleId(null);
+
+    initialDragStateRef.current = null;
+
+    // Previewed layouts have not been committed, so there is nothing else to revert.
+    clearDragPreview();
+
+    if (!areEqual(prevSizes, initialDragState.sizes)) {
+      commitSizes(initialDragState.sizes);
+    }
+
+    notifyDragEnd(initialDragState.sizes);
+  }, [clearDragPreview, commitSizes, notifyDragEnd]);
+
   useImperativeHandle(
     forwardedRef,
     () => ({
+      cancelDrag: cancelDragging,
       getId: () => groupId,
       getLayout: (unitsFromParams?: Units) => {
         const { sizes, units: unitsFromProps } = committedValuesRef.current;
 
         const units = unitsFromParams ?? unitsFromProps;
         if (units === "pixels") {
-          const groupSizePixels = getAvailableGroupSizePixels(groupId);
-          return sizes.map((size) => (size / 100) * groupSizePixels);
+          const groupSizePixels = getGroupAvailableSizePixels(
+            panelGroupElementRef.current!
+          );
+          return sizes.map((size) =>
+            convertPercentageToPixels(size, groupSizePixels)
+          );
         } else {
           return sizes;
         }
       },
       setLayout: (sizes: number[], unitsFromParams?: Units) => {
-        const {
-          id: groupId,
-          panels,
-          sizes: prevSizes,
-          units,
-        } = committedValuesRef.current;
+        const { panels, sizes: prevSizes, units } = committedValuesRef.current;
 
         if ((unitsFromParams || units) === "pixels") {
-          const groupSizePixels = getAvailableGroupSizePixels(groupId);
-          sizes = sizes.map((size) => (size / groupSizePixels) * 100);
+          const groupSizePixels = getGroupAvailableSizePixels(
+            panelGroupElementRef.current!
+          );
+          sizes = sizes.map((size) =>
+            convertPixelsToPercentage(size, groupSizePixels)
+          );
         }
 
-        const panelIdToLastNotifiedSizeMap =
-          panelIdToLastNotifiedSizeMapRef.current;
         const panelsArray = panelsMapToSortedArray(panels);
 
         const nextSizes = validatePanelGroupLayout({
-          groupId,
-          panels,
-          nextSizes: sizes,
-          prevSizes,
+          groupSizePixels: getGroupSizePixels(
+            panelGroupElementRef.current!,
+            units,
+            panelsArray
+          ),
+          layout: sizes,
+          panelConstraints: getPanelConstraints(panelsArray),
+          prevLayout: prevSizes,
           units,
         });
         if (!areEqual(prevSizes, nextSizes)) {
-          setSizes(nextSizes);
-
-          callPanelCallbacks(
-            panelsArray,
-            nextSizes,
-            panelIdToLastNotifiedSizeMap
-          );
+          transitionSizes(nextSizes);
         }
       },
     }),
-    [groupId]
+    [cancelDragging, groupId, transitionSizes]
   );
 
   useIsomorphicLayoutEffect(() => {
+    committedValuesRef.current.cascadeStrategy = cascadeStrategy;
     committedValuesRef.current.direction = direction;
+    committedValuesRef.current.dragPreview = dragPreview;
     committedValuesRef.current.id = groupId;
+    committedValuesRef.current.isControlled = isControlled;
     committedValuesRef.current.panels = panels;
-    committedValuesRef.current.sizes = sizes;
+    committedValuesRef.current.sizes = liveSizesRef.current ?? sizes;
+    committedValuesRef.current.transition = transition;
     committedValuesRef.current.units = units;
   });
 
   useWindowSplitterPanelGroupBehavior({
     committedValuesRef,
     groupId,
+    panelGroupElementRef,
     panels,
     setSizes,
     sizes,
@@ -278,11 +734,11 @@ function PanelGroupWithForwardedRef({
   // Notify external code when sizes have changed.
   useEffect(() => {
     const { onLayout } = callbacksRef.current!;
-    const { panels, sizes } = committedValuesRef.current;
+    const { panels, sizes, units } = committedValuesRef.current;
 
     // Don't commit layout until all panels have registered and re-rendered with their actual sizes.
     if (sizes.length > 0) {
-      if (onLayout) {
+      if (onLayout && sizes !== lastNotifiedLiveSizesRef.current) {
         onLayout(sizes);
       }
 
@@ -295,65 +751,259 @@ function PanelGroupWithForwardedRef({
       // In this case, the best we can do is notify on commit.
       // The callPanelCallbacks() uses its own memoization to avoid notifying panels twice in these cases.
       const panelsArray = panelsMapToSortedArray(panels);
-      callPanelCallbacks(panelsArray, sizes, panelIdToLastNotifiedSizeMap);
+      callPanelCallbacks(
+        panelsArray,
+        sizes,
+        panelIdToLastNotifiedSizeMap,
+        units,
+        getGroupSizePixels(panelGroupElementRef.current!, units, panelsArray)
+      );
     }
   }, [sizes]);
 
+  // Applies a layout loaded from storage (on mount, or after it was changed by another tab).
+  const restoreLayoutState = useCallback(
+    (panelsArray: PanelData[], layoutState: PanelGroupLayoutState) => {
+      const { units } = committedValuesRef.current;
+
+      const { collapsed, expandToSizes, sizes: savedSizes } = layoutState;
+
+      // Validate saved sizes in case something has changed since last render
+      // e.g. for pixel groups, this could be the size of the window
+      const validatedSizes = validatePanelGroupLayout({
+        groupSizePixels: getGroupSizePixels(
+          panelGroupElementRef.current!,
+          units,
+          panelsArray
+        ),
+        layout: savedSizes,
+        panelConstraints: getPanelConstraints(panelsArray),
+        prevLayout: savedSizes,
+        units,
+      });
+
+      // Collapsed panels should expand to the size they had before they were collapsed (rather than their min size)
+      panelsArray.forEach((panel, index) => {
+        const expandToSize = expandToSizes[index];
+        if (collapsed[index] && expandToSize != null) {
+          panelSizeBeforeCollapse.current.set(panel.current.id, expandToSize);
+        }
+      });
+
+      setSizes(validatedSizes);
+
+      return validatedSizes;
+    },
+    [setSizes]
+  );
+
   // Once all panels have registered themselves,
   // Compute the initial sizes based on default weights.
   // This assumes that panels register during initial mount (no conditional rendering)!
   useIsomorphicLayoutEffect(() => {
-    const { id: groupId, sizes, units } = committedValuesRef.current;
+    const { sizes, units } = committedValuesRef.current;
     if (sizes.length === panels.size) {
       // Only compute (or restore) default sizes once per panel configuration.
+      // Controlled groups that haven't been given a layout for these panels will propose one via onLayoutChange.
       return;
     }
 
+    // Any layout still being loaded (from asynchronous storage) was for a previous panel configuration
+    pendingLayoutLoadRef.current = null;
+    setIsLayoutLoading(false);
+
     // If this panel has been configured to persist sizing information,
     // default size should be restored from local storage if possible.
-    let defaultSizes: number[] | null = null;
-    if (autoSaveId) {
-      const panelsArray = panelsMapToSortedArray(panels);
-      defaultSizes = loadPanelLayout(autoSaveId, panelsArray, storage);
-    }
+    const panelsArray = panelsMapToSortedArray(panels);
+    const panelConstraints = getPanelConstraints(panelsArray);
 
-    if (defaultSizes != null) {
-      // Validate saved sizes in case something has changed since last render
-      // e.g. for pixel groups, this could be the size of the window
-      const validatedSizes = validatePanelGroupLayout({
-        groupId,
-        panels,
-        nextSizes: defaultSizes,
-        prevSizes: defaultSizes,
-        units,
+    const groupSizePixels = getGroupSizePixels(
+      panelGroupElementRef.current!,
+      units,
+      panelsArray
+    );
+
+    const savedLayoutState = autoSaveId
+      ? loadPanelLayout(autoSaveId, panelsArray, storage)
+      : null;
+
+    if (isPromise(savedLayoutState)) {
+      // Asynchronous storage; render a placeholder layout until the saved layout has loaded
+      const fallbackSizes =
+        fallbackLayout != null && fallbackLayout.length === panelsArray.length
+          ? validatePanelGroupLayout({
+              groupSizePixels,
+              layout: fallbackLayout,
+              panelConstraints,
+              prevLayout: fallbackLayout,
+              units,
+            })
+          : calculateDefaultLayout({
+              groupSizePixels,
+              panelConstraints,
+              units,
+            });
+
+      pendingLayoutLoadRef.current = savedLayoutState;
+
+      savedLayoutState.then((loadedLayoutState) => {
+        if (pendingLayoutLoadRef.current !== savedLayoutState) {
+          // Panels have changed (or the group has unmounted) since the load started
+          return;
+        }
+
+        pendingLayoutLoadRef.current = null;
+        setIsLayoutLoading(false);
+
+        // Don't override changes made (e.g. by the user) while the layout was loading
+        const { sizes: currentSizes } = committedValuesRef.current;
+        if (
+          loadedLayoutState != null &&
+          areEqual(currentSizes, fallbackSizes)
+        ) {
+          restoredSizesRef.current = restoreLayoutState(
+            panelsArray,
+            loadedLayoutState
+          );
+        }
       });
 
-      setSizes(validatedSizes);
+      setIsLayoutLoading(true);
+      setSizes(fallbackSizes);
+    } else if (savedLayoutState != null) {
+      restoreLayoutState(panelsArray, savedLayoutState);
     } else {
       const sizes = calculateDefaultLayout({
-        groupId,
-        panels,
+        groupSizePixels,
+        panelConstraints,
         units,
       });
 
       setSizes(sizes);
     }
-  }, [autoSaveId, panels, storage]);
+  }, [
+    autoSaveId,
+    fallbackLayout,
+    panels,
+    restoreLayoutState,
+    setSizes,
+    storage,
+  ]);
+
+  // Layouts saved by other tabs (or windows) can optionally be applied as they change.
+  // Changes to web storage (e.g. localStorage) are detected using storage events;
+  // other storage can notify the group of changes by implementing the optional subscribe method.
+  // Browsers only fire storage events in the other tabs, so tabs won't react to their own changes.
+  useEffect(() => {
+    if (!autoSaveId || !syncAcrossTabs) {
+      return;
+    }
+
+    const targetWindow =
+      panelGroupElementRef.current!.ownerDocument.defaultView!;
+
+    const onChange = (name: string | null) => {
+      if (!isPanelGroupStorageKey(autoSaveId, name)) {
+        return;
+      }
+
+      const { panels, sizes } = committedValuesRef.current;
+      if (sizes.length === 0 || sizes.length !== panels.size) {
+        return;
+      } else if (
+        initialDragStateRef.current !== null ||
+        pendingLayoutLoadRef.current !== null
+      ) {
+        // Don't interrupt a drag in this tab (or a layout that is still loading)
+        return;
+      }
+
+      const panelsArray = panelsMapToSortedArray(panels);
+
+      whenResolved(
+        loadPanelLayout(autoSaveId, panelsArray, storage),
+        (layoutState) => {
+          if (layoutState != null) {
+            // An in-progress transition would otherwise overwrite the synced layout
+            cancelTransition();
+
+            restoredSizesRef.current = restoreLayoutState(
+              panelsArray,
+              layoutState
+            );
+          }
+        }
+      );
+    };
+
+    const onStorage = (event: StorageEvent) => onChange(event.key);
+
+    targetWindow.addEventListener("storage", onStorage);
+
+    const unsubscribe = storage.subscribe ? storage.subscribe(onChange) : null;
+
+    return () => {
+      targetWindow.removeEventListener("storage", onStorage);
+
+      if (unsubscribe !== null) {
+        unsubscribe();
+      }
+    };
+  }, [
+    autoSaveId,
+    cancelTransition,
+    restoreLayoutState,
+    storage,
+    syncAcrossTabs,
+  ]);
 
   useEffect(() => {
     // If this panel has been configured to persist sizing information, save sizes to local storage.
     if (autoSaveId) {
       if (sizes.length === 0 || sizes.length !== panels.size) {
         return;
+      } else if (isLayoutLoading) {
+        // Saving the placeholder layout would overwrite the layout being loaded
+        return;
+      } else if (sizes === restoredSizesRef.current) {
+        // Saving a layout that was just loaded could overwrite changes made by another tab in the meantime
+        return;
       }
 
+      const { units } = committedValuesRef.current;
+
       const panelsArray = panelsMapToSortedArray(panels);
+      const groupSizePixels = getGroupSizePixels(
+        panelGroupElementRef.current!,
+        units,
+        panelsArray
+      );
+
+      // Collapsed panels also remember the size to expand to, so that it can be restored after a reload
+      const collapsed = panelsArray.map((panel, index) => {
+        const { collapsedSize, collapsible } = normalizePanelConstraints(
+          panel.current,
+          units,
+          groupSizePixels
+        );
+        return collapsible && sizes[index] === collapsedSize;
+      });
+      const expandToSizes = panelsArray.map((panel, index) =>
+        collapsed[index]
+          ? panelSizeBeforeCollapse.current.get(panel.current.id) ?? null
+          : null
+      );
 
       // Limit the frequency of localStorage updates.
       if (!debounceMap[autoSaveId]) {
         debounceMap[autoSaveId] = debounce(savePanelGroupLayout, 100);
       }
-      debounceMap[autoSaveId](autoSaveId, panelsArray, sizes, storage);
+      debounceMap[autoSaveId](
+        autoSaveId,
+        panelsArray,
+        { collapsed, expandToSizes, sizes },
+        storage
+      );
     }
 
     if (isDevelopment) {
@@ -383,58 +1033,82 @@ function PanelGroupWithForwardedRef({
         }
       }
     }
-  }, [autoSaveId, panels, sizes, storage]);
+  }, [autoSaveId, isLayoutLoading, panels, sizes, storage]);
+
+  // Pixel panel constraints (and fixed size panels) need to be reassessed after a group resize
+  // We can avoid the ResizeObserver overhead for relative layouts
+  const panelsArray = Array.from(panels.values());
+  const hasFixedPanels = usesFixedResizeBehavior(panelsArray);
+  const hasPixelConstraints = usesPixelConstraints(units, panelsArray);
 
   useIsomorphicLayoutEffect(() => {
-    // Pixel panel constraints need to be reassessed after a group resize
-    // We can avoid the ResizeObserver overhead for relative layouts
-    if (units === "pixels") {
+    if (hasFixedPanels || hasPixelConstraints) {
+      const panelGroupElement = panelGroupElementRef.current!;
+
+      let prevGroupSizePixels = getGroupAvailableSizePixels(panelGroupElement);
+
+      // Observers created by another window (e.g. the opener of a popout) may not be notified of resizes
+      const { ResizeObserver } = panelGroupElement.ownerDocument.defaultView!;
       const resizeObserver = new ResizeObserver(() => {
         const { panels, sizes: prevSizes } = committedValuesRef.current;
 
+        const groupSizePixels = getGroupAvailableSizePixels(panelGroupElement);
+        const panelConstraints = getPanelConstraints(
+          panelsMapToSortedArray(panels)
+        );
+
         const nextSizes = validatePanelGroupLayout({
-          groupId,
-          panels,
-          nextSizes: prevSizes,
-          prevSizes,
+          groupSizePixels,
+          layout: adjustLayoutForGroupResize({
+            groupSizePixels,
+            layout: prevSizes,
+            panelConstraints,
+            prevGroupSizePixels,
+            units,
+          }),
+          panelConstraints,
+          prevLayout: prevSizes,
           units,
         });
+
+        prevGroupSizePixels = groupSizePixels;
+
         if (!areEqual(prevSizes, nextSizes)) {
           setSizes(nextSizes);
         }
       });
 
-      resizeObserver.observe(getPanelGroup(groupId)!);
+      resizeObserver.observe(panelGroupElement);
 
       return () => {
         resizeObserver.disconnect();
       };
     }
-  }, [groupId, units]);
+  }, [groupId, hasFixedPanels, hasPixelConstraints, setSizes, units]);
 
-  const getPanelSize = useCallback(
-    (id: string, unitsFromParams?: Units) => {
-      const { panels, units: unitsFromProps } = committedValuesRef.current;
+  // Committed sizes include live layouts (while a resize handle is being dragged) that React state doesn't yet reflect.
+  const getPanelSize = useCallback((id: string, unitsFromParams?: Units) => {
+    const { panels, sizes, units: unitsFromProps } = committedValuesRef.current;
 
-      const panelsArray = panelsMapToSortedArray(panels);
+    const panelsArray = panelsMapToSortedArray(panels);
 
-      const index = panelsArray.findIndex((panel) => panel.current.id === id);
-      const size = sizes[index];
+    const index = panelsArray.findIndex((panel) => panel.current.id === id);
+    const size = sizes[index];
 
-      const units = unitsFromParams ?? unitsFromProps;
-      if (units === "pixels") {
-        const groupSizePixels = getAvailableGroupSizePixels(groupId);
-        return (size / 100) * groupSizePixels;
-      } else {
-        return size;
-      }
-    },
-    [groupId, sizes]
-  );
+    const units = unitsFromParams ?? unitsFromProps;
+    if (units === "pixels") {
+      const groupSizePixels = getGroupAvailableSizePixels(
+        panelGroupElementRef.current!
+      );
+      return convertPercentageToPixels(size, groupSizePixels);
+    } else {
+      return size;
+    }
+  }, []);
 
   const getPanelStyle = useCallback(
-    (id: string, defaultSize: number | null): CSSProperties => {
-      const { panels } = committedValuesRef.current;
+    (id: string, defaultSize: PanelSize | null): CSSProperties => {
+      const { panels, units } = committedValuesRef.current;
 
       // Before mounting, Panels will not yet have registered themselves.
       // This includes server rendering.
@@ -453,7 +1127,10 @@ function PanelGroupWithForwardedRef({
 
         return {
           flexBasis: 0,
-          flexGrow: defaultSize != null ? defaultSize : undefined,
+          flexGrow:
+            defaultSize != null
+              ? parsePanelSize(defaultSize, units).value
+              : undefined,
           flexShrink: 1,
 
           // Without this, Panel sizes may be unintentionally overridden by their content.
@@ -500,20 +1177,34 @@ function PanelGroupWithForwardedRef({
   }, []);
 
   const registerResizeHandle = useCallback(
-    (handleId: string) => {
+    (handleId: string, callbacksRef: PanelResizeHandleCallbackRef) => {
+      resizeHandleCallbacksRef.current.set(handleId, callbacksRef);
+
       const resizeHandler = (event: ResizeEvent) => {
         event.preventDefault();
 
+        // User interactions take precedence over animated layout changes.
+        cancelTransition();
+
         const {
           direction,
+          dragPreview,
+          isControlled,
           panels,
-          sizes: prevSizes,
+          sizes: committedSizes,
+          units,
         } = committedValuesRef.current;
 
+        // Drag previews are resized further (e.g. by repeated key presses) rather than the committed layout.
+        const prevSizes = dragPreviewRef.current?.sizes ?? committedSizes;
+
         const panelsArray = panelsMapToSortedArray(panels);
 
+        const groupElement = panelGroupElementRef.current!;
+        const targetDocument = groupElement.ownerDocument;
+
         const [idBefore, idAfter] = getResizeHandlePanelIds(
-          groupId,
+          groupElement,
           handleId,
           panelsArray
         );
@@ -521,12 +1212,13 @@ function PanelGroupWithForwardedRef({
           return;
         }
 
-        let movement = getMovement(
+        const movement = getMovement(
           event,
-          groupId,
+          groupElement,
           handleId,
           panelsArray,
           direction,
+          units,
           prevSizes,
           initialDragStateRef.current
         );
@@ -534,22 +1226,22 @@ function PanelGroupWithForwardedRef({
           return;
         }
 
-        const groupElement = getPanelGroup(groupId)!;
-        const rect = groupElement.getBoundingClientRect();
-        const isHorizontal = direction === "horizontal";
-
-        // Support RTL layouts
-        if (document.dir === "rtl" && isHorizontal) {
-          movement = -movement;
-        }
+        // Cursors reflect the screen axis (and direction) the pointer is moving in
+        const { direction: physicalDirection, isReversed } =
+          getPhysicalDirection(groupElement, direction);
+        const isHorizontal = physicalDirection === "horizontal";
+        const physicalMovement = isReversed ? -movement : movement;
 
-        const size = isHorizontal ? rect.width : rect.height;
+        // Movement is in layout pixels (even if the group has been scaled by a CSS transform);
+        // layouts are percentages of the space left for panels once resize handles have been excluded.
+        const size = getGroupAvailableSizePixels(groupElement);
         const delta = (movement / size) * 100;
 
         // If a validateLayout method has been provided
         // it's important to use it before updating the mouse cursor
-        const nextSizes = adjustByDelta(
+        const nextSizes = adjustPanelGroupByDelta(
           event,
+          groupElement,
           committedValuesRef.current,
           idBefore,
           idAfter,
@@ -562,7 +1254,7 @@ function PanelGroupWithForwardedRef({
         const sizesChanged = !areEqual(prevSizes, nextSizes);
 
         // Don't update cursor for resizes triggered by keyboard interactions.
-        if (isMouseEvent(event) || isTouchEvent(event)) {
+        if (isPointerEvent(event)) {
           // Watch for multiple subsequent deltas; this might occur for tiny cursor movements.
           // In this case, Panel sizes might not change–
           // but updating cursor in this scenario would cause a flicker.
@@ -574,34 +1266,42 @@ function PanelGroupWithForwardedRef({
 
               if (isHorizontal) {
                 setGlobalCursorStyle(
-                  movement < 0 ? "horizontal-min" : "horizontal-max"
+                  physicalMovement < 0 ? "horizontal-min" : "horizontal-max",
+                  targetDocument
                 );
               } else {
                 setGlobalCursorStyle(
-                  movement < 0 ? "vertical-min" : "vertical-max"
+                  physicalMovement < 0 ? "vertical-min" : "vertical-max",
+                  targetDocument
                 );
               }
             } else {
               // Reset the cursor style to the the normal resize cursor.
-              setGlobalCursorStyle(isHorizontal ? "horizontal" : "vertical");
+              setGlobalCursorStyle(
+                isHorizontal ? "horizontal" : "vertical",
+                targetDocument
+              );
             }
           }
         }
 
         if (sizesChanged) {
-          const panelIdToLastNotifiedSizeMap =
-            panelIdToLastNotifiedSizeMapRef.current;
+          // Keyboard drags start with the first key press that resizes the panels
+          // (and before the new layout is committed, so that it isn't mistaken for the initial layout).
+          if (isKeyDown(event)) {
+            notifyDragStart(handleId, "keyboard");
+          }
 
-          // It's okay to bypass in this case because we already validated above
-          setSizes(nextSizes);
+          if (dragPreview) {
+            updateDragPreview(handleId, nextSizes);
+          } else if (isPointerEvent(event) && !isControlled) {
+            setLiveSizes(nextSizes);
+          } else {
+            // It's okay to bypass in this case because we already validated above
+            commitSizes(nextSizes);
+          }
 
-          // If resize change handlers have been declared, this is the time to call them.
-          // Trigger user callbacks after updating state, so that user code can override the sizes.
-          callPanelCallbacks(
-            panelsArray,
-            nextSizes,
-            panelIdToLastNotifiedSizeMap
-          );
+          notifyDrag(nextSizes);
         }
 
         prevDeltaRef.current = delta;
@@ -609,7 +1309,14 @@ function PanelGroupWithForwardedRef({
 
       return resizeHandler;
     },
-    [groupId]
+    [
+      cancelTransition,
+      commitSizes,
+      notifyDrag,
+      notifyDragStart,
+      setLiveSizes,
+      updateDragPreview,
+    ]
   );
 
   const unregisterPanel = useCallback((id: string) => {
@@ -625,137 +1332,136 @@ function PanelGroupWithForwardedRef({
     });
   }, []);
 
-  const collapsePanel = useCallback((id: string) => {
-    const { panels, sizes: prevSizes } = committedValuesRef.current;
-
-    const panel = panels.get(id);
-    if (panel == null) {
-      return;
-    }
-
-    const { collapsedSize, collapsible } = panel.current;
-    if (!collapsible) {
-      return;
-    }
+  const collapsePanel = useCallback(
+    (id: string) => {
+      const { panels, sizes: prevSizes, units } = committedValuesRef.current;
 
-    const panelsArray = panelsMapToSortedArray(panels);
+      const panel = panels.get(id);
+      if (panel == null) {
+        return;
+      }
 
-    const index = panelsArray.indexOf(panel);
-    if (index < 0) {
-      return;
-    }
+      const panelsArray = panelsMapToSortedArray(panels);
 
-    const currentSize = prevSizes[index];
-    if (currentSize === collapsedSize) {
-      // Panel is already collapsed.
-      return;
-    }
+      const { collapsedSize, collapsible } = normalizePanelConstraints(
+        panel.current,
+        units,
+        getGroupSizePixels(panelGroupElementRef.current!, units, panelsArray)
+      );
+      if (!collapsible) {
+        return;
+      }
 
-    panelSizeBeforeCollapse.current.set(id, currentSize);
+      const index = panelsArray.indexOf(panel);
+      if (index < 0) {
+        return;
+      }
 
-    const [idBefore, idAfter] = getBeforeAndAfterIds(id, panelsArray);
-    if (idBefore == null || idAfter == null) {
-      return;
-    }
+      const currentSize = prevSizes[index];
+      if (currentSize === collapsedSize) {
+        // Panel is already collapsed.
+        return;
+      }
 
-    const isLastPanel = index === panelsArray.length - 1;
-    const delta = isLastPanel ? currentSize : collapsedSize - currentSize;
-
-    const nextSizes = adjustByDelta(
-      null,
-      committedValuesRef.current,
-      idBefore,
-      idAfter,
-      delta,
-      prevSizes,
-      panelSizeBeforeCollapse.current,
-      null
-    );
-    if (prevSizes !== nextSizes) {
-      const panelIdToLastNotifiedSizeMap =
-        panelIdToLastNotifiedSizeMapRef.current;
+      panelSizeBeforeCollapse.current.set(id, currentSize);
 
-      setSizes(nextSizes);
+      const [idBefore, idAfter] = getBeforeAndAfterIds(id, panelsArray);
+      if (idBefore == null || idAfter == null) {
+        return;
+      }
 
-      // If resize change handlers have been declared, this is the time to call them.
-      // Trigger user callbacks after updating state, so that user code can override the sizes.
-      callPanelCallbacks(panelsArray, nextSizes, panelIdToLastNotifiedSizeMap);
-    }
-  }, []);
+      const isLastPanel = index === panelsArray.length - 1;
+      const delta = isLastPanel ? currentSize : collapsedSize - currentSize;
 
-  const expandPanel = useCallback((id: string) => {
-    const { panels, sizes: prevSizes } = committedValuesRef.current;
+      const nextSizes = adjustPanelGroupByDelta(
+        null,
+        panelGroupElementRef.current!,
+        committedValuesRef.current,
+        idBefore,
+        idAfter,
+        delta,
+        prevSizes,
+        panelSizeBeforeCollapse.current,
+        null
+      );
+      if (prevSizes !== nextSizes) {
+        transitionSizes(nextSizes);
+      }
+    },
+    [transitionSizes]
+  );
 
-    const panel = panels.get(id);
-    if (panel == null) {
-      return;
-    }
+  const expandPanel = useCallback(
+    (id: string) => {
+      const { panels, sizes: prevSizes, units } = committedValuesRef.current;
 
-    const { collapsedSize, minSize } = panel.current;
+      const panel = panels.get(id);
+      if (panel == null) {
+        return;
+      }
 
-    const sizeBeforeCollapse =
-      panelSizeBeforeCollapse.current.get(id) || minSize;
-    if (!sizeBeforeCollapse) {
-      return;
-    }
+      const panelsArray = panelsMapToSortedArray(panels);
 
-    const panelsArray = panelsMapToSortedArray(panels);
+      const { collapsedSize, minSize } = normalizePanelConstraints(
+        panel.current,
+        units,
+        getGroupSizePixels(panelGroupElementRef.current!, units, panelsArray)
+      );
 
-    const index = panelsArray.indexOf(panel);
-    if (index < 0) {
-      return;
-    }
+      const sizeBeforeCollapse =
+        panelSizeBeforeCollapse.current.get(id) || minSize;
+      if (!sizeBeforeCollapse) {
+        return;
+      }
 
-    const currentSize = prevSizes[index];
-    if (currentSize !== collapsedSize) {
-      // Panel is already expanded.
-      return;
-    }
+      const index = panelsArray.indexOf(panel);
+      if (index < 0) {
+        return;
+      }
 
-    const [idBefore, idAfter] = getBeforeAndAfterIds(id, panelsArray);
-    if (idBefore == null || idAfter == null) {
-      return;
-    }
+      const currentSize = prevSizes[index];
+      if (currentSize !== collapsedSize) {
+        // Panel is already expanded.
+        return;
+      }
 
-    const isLastPanel = index === panelsArray.length - 1;
-    const delta = isLastPanel
-      ? collapsedSize - sizeBeforeCollapse
-      : sizeBeforeCollapse;
-
-    const nextSizes = adjustByDelta(
-      null,
-      committedValuesRef.current,
-      idBefore,
-      idAfter,
-      delta,
-      prevSizes,
-      panelSizeBeforeCollapse.current,
-      null
-    );
-    if (prevSizes !== nextSizes) {
-      const panelIdToLastNotifiedSizeMap =
-        panelIdToLastNotifiedSizeMapRef.current;
+      const [idBefore, idAfter] = getBeforeAndAfterIds(id, panelsArray);
+      if (idBefore == null || idAfter == null) {
+        return;
+      }
 
-      setSizes(nextSizes);
+      const isLastPanel = index === panelsArray.length - 1;
+      const delta = isLastPanel
+        ? collapsedSize - sizeBeforeCollapse
+        : sizeBeforeCollapse;
 
-      // If resize change handlers have been declared, this is the time to call them.
-      // Trigger user callbacks after updating state, so that user code can override the sizes.
-      callPanelCallbacks(panelsArray, nextSizes, panelIdToLastNotifiedSizeMap);
-    }
-  }, []);
+      const nextSizes = adjustPanelGroupByDelta(
+        null,
+        panelGroupElementRef.current!,
+        committedValuesRef.current,
+        idBefore,
+        idAfter,
+        delta,
+        prevSizes,
+        panelSizeBeforeCollapse.current,
+        null
+      );
+      if (prevSizes !== nextSizes) {
+        transitionSizes(nextSizes);
+      }
+    },
+    [transitionSizes]
+  );
 
   const resizePanel = useCallback(
     (id: string, nextSize: number, unitsFromParams?: Units) => {
-      const {
-        id: groupId,
-        panels,
-        sizes: prevSizes,
-        units,
-      } = committedValuesRef.current;
+      const { panels, sizes: prevSizes, units } = committedValuesRef.current;
 
       if ((unitsFromParams || units) === "pixels") {
-        const groupSizePixels = getAvailableGroupSizePixels(groupId);
-        nextSize = (nextSize / groupSizePixels) * 100;
+        const groupSizePixels = getGroupAvailableSizePixels(
+          panelGroupElementRef.current!
+        );
+        nextSize = convertPixelsToPercentage(nextSize, groupSizePixels);
       }
 
       const panel = panels.get(id);
@@ -763,18 +1469,15 @@ function PanelGroupWithForwardedRef({
         return;
       }
 
-      let { collapsedSize, collapsible, maxSize, minSize } = panel.current;
-
-      if (units === "pixels") {
-        const groupSizePixels = getAvailableGroupSizePixels(groupId);
-        minSize = (minSize / groupSizePixels) * 100;
-        if (maxSize != null) {
-          maxSize = (maxSize / groupSizePixels) * 100;
-        }
-      }
-
       const panelsArray = panelsMapToSortedArray(panels);
 
+      const { collapsedSize, collapsible, maxSize, minSize } =
+        normalizePanelConstraints(
+          panel.current,
+          units,
+          getGroupSizePixels(panelGroupElementRef.current!, units, panelsArray)
+        );
+
       const index = panelsArray.indexOf(panel);
       if (index < 0) {
         return;
@@ -814,8 +1517,9 @@ function PanelGroupWithForwardedRef({
         ? currentSize - nextSize
         : nextSize - currentSize;
 
-      const nextSizes = adjustByDelta(
+      const nextSizes = adjustPanelGroupByDelta(
         null,
+        panelGroupElementRef.current!,
         committedValuesRef.current,
         idBefore,
         idAfter,
@@ -825,26 +1529,132 @@ function PanelGroupWithForwardedRef({
         null
       );
       if (prevSizes !== nextSizes) {
-        const panelIdToLastNotifiedSizeMap =
-          panelIdToLastNotifiedSizeMapRef.current;
+        transitionSizes(nextSizes);
+      }
+    },
+    [transitionSizes]
+  );
 
-        setSizes(nextSizes);
+  // Returns the ids of the panels on either side of the resize handle (or null if they can't be found).
+  const applyDoubleClickAction = useCallback(
+    (
+      handleId: string,
+      action: PanelResizeHandleDoubleClickAction | null
+    ): [idBefore: string, idAfter: string] | null => {
+      const { panels, sizes: prevSizes, units } = committedValuesRef.current;
 
-        // If resize change handlers have been declared, this is the time to call them.
-        // Trigger user callbacks after updating state, so that user code can override the sizes.
-        callPanelCallbacks(
-          panelsArray,
-          nextSizes,
-          panelIdToLastNotifiedSizeMap
+      const panelsArray = panelsMapToSortedArray(panels);
+
+      const [idBefore, idAfter] = getResizeHandlePanelIds(
+        panelGroupElementRef.current!,
+        handleId,
+        panelsArray
+      );
+      if (idBefore == null || idAfter == null) {
+        return null;
+      }
+
+      const indexBefore = panelsArray.findIndex(
+        (panel) => panel.current.id === idBefore
+      );
+      const indexAfter = panelsArray.findIndex(
+        (panel) => panel.current.id === idAfter
+      );
+
+      const groupSizePixels = getGroupSizePixels(
+        panelGroupElementRef.current!,
+        units,
+        panelsArray
+      );
+      const panelConstraints = getPanelConstraints(panelsArray);
+      const [constraintsBefore, constraintsAfter] = [
+        indexBefore,
+        indexAfter,
+      ].map((index) =>
+        normalizePanelConstraints(
+          panelConstraints[index],
+          units,
+          groupSizePixels
+        )
+      );
+
+      let delta = 0;
+      switch (action) {
+        case "equalize": {
+          delta = (prevSizes[indexAfter] - prevSizes[indexBefore]) / 2;
+          break;
+        }
+        case "reset": {
+          // Panels without a defaultSize are reset to the size they would have been given initially.
+          const defaultLayout = calculateDefaultLayout({
+            groupSizePixels,
+            panelConstraints,
+            units,
+          });
+
+          if (
+            constraintsBefore.defaultSize == null &&
+            constraintsAfter.defaultSize != null
+          ) {
+            delta = prevSizes[indexAfter] - defaultLayout[indexAfter];
+          } else {
+            delta = defaultLayout[indexBefore] - prevSizes[indexBefore];
+          }
+          break;
+        }
+        case "toggle-collapse": {
+          // Prefer expanding a collapsed panel; otherwise collapse the panel before the handle (if possible).
+          const collapsedId = [
+            {
+              constraints: constraintsBefore,
+              id: idBefore,
+              index: indexBefore,
+            },
+            { constraints: constraintsAfter, id: idAfter, index: indexAfter },
+          ].find(
+            ({ constraints, index }) =>
+              constraints.collapsible &&
+              prevSizes[index] === constraints.collapsedSize
+          )?.id;
+
+          if (collapsedId != null) {
+            expandPanel(collapsedId);
+          } else if (constraintsBefore.collapsible) {
+            collapsePanel(idBefore);
+          } else if (constraintsAfter.collapsible) {
+            collapsePanel(idAfter);
+          }
+          break;
+        }
+      }
+
+      if (delta !== 0) {
+        const nextSizes = adjustPanelGroupByDelta(
+          null,
+          panelGroupElementRef.current!,
+          committedValuesRef.current,
+          idBefore,
+          idAfter,
+          delta,
+          prevSizes,
+          panelSizeBeforeCollapse.current,
+          null
         );
+        if (!areEqual(prevSizes, nextSizes)) {
+          transitionSizes(nextSizes);
+        }
       }
+
+      return [idBefore, idAfter];
     },
-    []
+    [collapsePanel, expandPanel, transitionSizes]
   );
 
   const context = useMemo(
     () => ({
       activeHandleId,
+      applyDoubleClickAction,
+      cancelDragging,
       collapsePanel,
       direction,
       expandPanel,
@@ -855,16 +1665,27 @@ function PanelGroupWithForwardedRef({
       registerResizeHandle,
       resizePanel,
       startDragging: (id: string, event: ResizeEvent) => {
+        cancelTransition();
         setActiveHandleId(id);
 
-        if (isMouseEvent(event) || isTouchEvent(event)) {
-          const handleElement = getResizeHandle(id)!;
+        if (isPointerEvent(event)) {
+          const handleElement = getResizeHandle(
+            id,
+            panelGroupElementRef.current!
+          )!;
+          const dragHandleRect = handleElement.getBoundingClientRect();
+          const { direction: physicalDirection } = getPhysicalDirection(
+            handleElement,
+            direction
+          );
 
           initialDragStateRef.current = {
-            dragHandleRect: handleElement.getBoundingClientRect(),
-            dragOffset: getDragOffset(event, id, direction),
+            dragHandleRect,
+            dragOffset: getDragOffset(event, dragHandleRect, physicalDirection),
             sizes: committedValuesRef.current.sizes,
           };
+
+          notifyDragStart(id, "pointer");
         }
       },
       stopDragging: () => {
@@ -872,18 +1693,38 @@ function PanelGroupWithForwardedRef({
         setActiveHandleId(null);
 
         initialDragStateRef.current = null;
+
+        reconcileLiveSizes();
+        commitDragPreview();
+        notifyDragEnd(null);
+      },
+      stopKeyboardDragging: () => {
+        // Pointer drags are stopped separately
+        if (initialDragStateRef.current !== null) {
+          return;
+        }
+
+        commitDragPreview();
+        notifyDragEnd(null);
       },
       units,
       unregisterPanel,
     }),
     [
       activeHandleId,
+      applyDoubleClickAction,
+      cancelDragging,
+      cancelTransition,
       collapsePanel,
+      commitDragPreview,
       direction,
       expandPanel,
       getPanelSize,
       getPanelStyle,
       groupId,
+      notifyDragEnd,
+      notifyDragStart,
+      reconcileLiveSizes,
       registerPanel,
       registerResizeHandle,
       resizePanel,
@@ -907,7 +1748,9 @@ function PanelGroupWithForwardedRef({
       "data-panel-group": "",
       "data-panel-group-direction": direction,
       "data-panel-group-id": groupId,
+      "data-panel-group-loading": isLayoutLoading ? "" : undefined,
       "data-panel-group-units": units,
+      ref: panelGroupElementRef,
       style: { ...style, ...styleFromProps },
     }),
     value: context,
@@ -2,31 +2,53 @@ import {
   createElement,
   CSSProperties,
   ElementType,
-  MouseEvent as ReactMouseEvent,
+  PointerEvent as ReactPointerEvent,
   ReactNode,
-  TouchEvent,
   useCallback,
   useContext,
   useEffect,
   useRef,
   useState,
 } from "./vendor/react";
+import useIsomorphicLayoutEffect from "./hooks/useIsomorphicEffect";
 import useUniqueId from "./hooks/useUniqueId";
 
 import { useWindowSplitterResizeHandlerBehavior } from "./hooks/useWindowSplitterBehavior";
 import { PanelGroupContext } from "./PanelContexts";
 import type {
+  Direction,
   ResizeHandler,
-  ResizeEvent,
+  PanelResizeHandleDoubleClickAction,
+  PanelResizeHandleHitAreaMargins,
+  PanelResizeHandleOnDoubleClick,
+  PanelResizeHandleOnDrag,
   PanelResizeHandleOnDragging,
 } from "./types";
-import { getCursorStyle } from "./utils/cursor";
+import { getPhysicalDirection } from "./utils/coordinates";
+import {
+  getCursorStyle,
+  resetGlobalCursorStyle,
+  setGlobalCursorStyle,
+} from "./utils/cursor";
+import {
+  DragHandlers,
+  getHitAreaMargin,
+  getIntersectingDragHandlers,
+  registerDragHandlers,
+  unregisterDragHandlers,
+} from "./utils/intersection";
 
 export type PanelResizeHandleProps = {
   children?: ReactNode;
   className?: string;
   disabled?: boolean;
+  doubleClickAction?: PanelResizeHandleDoubleClickAction | null;
+  hitAreaMargins?: PanelResizeHandleHitAreaMargins | null;
   id?: string | null;
+  onDoubleClick?: PanelResizeHandleOnDoubleClick;
+  onDrag?: PanelResizeHandleOnDrag;
+  onDragEnd?: PanelResizeHandleOnDrag;
+  onDragStart?: PanelResizeHandleOnDrag;
   onDragging?: PanelResizeHandleOnDragging;
   style?: CSSProperties;
   tagName?: ElementType;
@@ -36,7 +58,13 @@ export function PanelResizeHandle({
   children = null,
   className: classNameFromProps = "",
   disabled = false,
+  doubleClickAction = null,
+  hitAreaMargins = null,
   id: idFromProps = null,
+  onDoubleClick,
+  onDrag,
+  onDragEnd,
+  onDragStart,
   onDragging,
   style: styleFromProps = {},
   tagName: Type = "div",
@@ -45,9 +73,17 @@ export function PanelResizeHandle({
 
   // Use a ref to guard against users passing inline props
   const callbacksRef = useRef<{
+    onDoubleClick: PanelResizeHandleOnDoubleClick | undefined;
+    onDrag: PanelResizeHandleOnDrag | undefined;
+    onDragEnd: PanelResizeHandleOnDrag | undefined;
+    onDragStart: PanelResizeHandleOnDrag | undefined;
     onDragging: PanelResizeHandleOnDragging | undefined;
-  }>({ onDragging });
+  }>({ onDoubleClick, onDrag, onDragEnd, onDragStart, onDragging });
   useEffect(() => {
+    callbacksRef.current.onDoubleClick = onDoubleClick;
+    callbacksRef.current.onDrag = onDrag;
+    callbacksRef.current.onDragEnd = onDragEnd;
+    callbacksRef.current.onDragStart = onDragStart;
     callbacksRef.current.onDragging = onDragging;
   });
 
@@ -60,11 +96,14 @@ export function PanelResizeHandle({
 
   const {
     activeHandleId,
+    applyDoubleClickAction,
+    cancelDragging,
     direction,
     groupId,
     registerResizeHandle,
     startDragging,
     stopDragging,
+    stopKeyboardDragging,
   } = panelGroupContext;
 
   const resizeHandleId = useUniqueId(idFromProps);
@@ -72,10 +111,67 @@ export function PanelResizeHandle({
 
   const [isFocused, setIsFocused] = useState(false);
 
+  // The pointer type can't be known during server rendering,
+  // so the hit area is only sized for it after mounting.
+  const coarseHitAreaMargin = hitAreaMargins?.coarse ?? 0;
+  const fineHitAreaMargin = hitAreaMargins?.fine ?? 0;
+  const [hitAreaMargin, setHitAreaMargin] = useState(fineHitAreaMargin);
+  useIsomorphicLayoutEffect(() => {
+    setHitAreaMargin(
+      getHitAreaMargin(
+        {
+          coarse: coarseHitAreaMargin,
+          fine: fineHitAreaMargin,
+        },
+        divElementRef.current!.ownerDocument.defaultView!
+      )
+    );
+  }, [coarseHitAreaMargin, fineHitAreaMargin]);
+
+  // The cursor and hit area follow the screen axis the handle moves along,
+  // which (for vertical writing modes) can only be known after mounting.
+  const [physicalDirection, setPhysicalDirection] =
+    useState<Direction>(direction);
+  useIsomorphicLayoutEffect(() => {
+    const { direction: physicalDirection } = getPhysicalDirection(
+      divElementRef.current!,
+      direction
+    );
+
+    setPhysicalDirection(physicalDirection);
+  }, [direction]);
+
+  // Tracks whether onDragging(true) has been called without a matching onDragging(false)
+  const isDraggingNotifiedRef = useRef(false);
+
+  // Pointer captured by this handle when the drag started;
+  // handles dragged along with another one (see below) don't capture it themselves.
+  const capturedPointerIdRef = useRef<number | null>(null);
+
+  // Handles of nested groups that are being dragged along with this one
+  const intersectingDragHandlersRef = useRef<DragHandlers[]>([]);
+
+  // Tracks whether the "move" cursor is being shown because this handle intersects another one
+  const isHoveringIntersectionRef = useRef(false);
+
   const [resizeHandler, setResizeHandler] = useState<ResizeHandler | null>(
     null
   );
 
+  const startDraggingAndNotify = useCallback(
+    (event: PointerEvent) => {
+      startDragging(resizeHandleId, event);
+
+      isDraggingNotifiedRef.current = true;
+
+      const { onDragging } = callbacksRef.current!;
+      if (onDragging) {
+        onDragging(true);
+      }
+    },
+    [resizeHandleId, startDragging]
+  );
+
   const stopDraggingAndBlur = useCallback(() => {
     // Clicking on the drag handle shouldn't leave it focused;
     // That would cause the PanelGroup to think it was still active.
@@ -84,110 +180,285 @@ export function PanelResizeHandle({
 
     stopDragging();
 
-    const { onDragging } = callbacksRef.current;
-    if (onDragging) {
-      onDragging(false);
+    const intersectingDragHandlers = intersectingDragHandlersRef.current;
+    intersectingDragHandlersRef.current = [];
+    intersectingDragHandlers.forEach(({ stopDragging }) => stopDragging());
+
+    if (isDraggingNotifiedRef.current) {
+      isDraggingNotifiedRef.current = false;
+
+      const { onDragging } = callbacksRef.current;
+      if (onDragging) {
+        onDragging(false);
+      }
     }
   }, [stopDragging]);
 
+  // Drags can also be cancelled by the PanelGroup (e.g. via the imperative cancelDrag() API)
+  useEffect(() => {
+    if (!isDragging) {
+      capturedPointerIdRef.current = null;
+
+      if (isDraggingNotifiedRef.current) {
+        isDraggingNotifiedRef.current = false;
+
+        const { onDragging } = callbacksRef.current;
+        if (onDragging) {
+          onDragging(false);
+        }
+      }
+    }
+  }, [isDragging]);
+
   useEffect(() => {
     if (disabled) {
       setResizeHandler(null);
     } else {
-      const resizeHandler = registerResizeHandle(resizeHandleId);
+      const resizeHandler = registerResizeHandle(resizeHandleId, callbacksRef);
       setResizeHandler(() => resizeHandler);
     }
   }, [disabled, resizeHandleId, registerResizeHandle]);
 
+  useEffect(() => {
+    if (disabled || resizeHandler == null) {
+      return;
+    }
+
+    registerDragHandlers(resizeHandleId, {
+      hitAreaMargin,
+      resizeHandler,
+      startDragging: startDraggingAndNotify,
+      stopDragging: stopDraggingAndBlur,
+    });
+
+    return () => {
+      unregisterDragHandlers(resizeHandleId);
+    };
+  }, [
+    disabled,
+    hitAreaMargin,
+    resizeHandleId,
+    resizeHandler,
+    startDraggingAndNotify,
+    stopDraggingAndBlur,
+  ]);
+
   useEffect(() => {
     if (disabled || resizeHandler == null || !isDragging) {
       return;
     }
 
-    const onMove = (event: ResizeEvent) => {
+    // The handle captures the pointer when a drag starts,
+    // so all subsequent pointer events are targeted at it
+    // (even if the pointer moves over an iframe or outside of the window).
+    const onPointerMove = (event: PointerEvent) => {
       resizeHandler(event);
+
+      // Intersecting handles each use the movement component that matches their own direction
+      const intersectingDragHandlers = intersectingDragHandlersRef.current;
+      if (intersectingDragHandlers.length > 0) {
+        intersectingDragHandlers.forEach(({ resizeHandler }) =>
+          resizeHandler(event)
+        );
+
+        // Resize handlers update the cursor to reflect their own direction
+        setGlobalCursorStyle("intersection", divElement.ownerDocument);
+      }
     };
 
-    const onMouseLeave = (event: MouseEvent) => {
-      resizeHandler(event);
+    // Pressing Escape cancels the drag and restores the layout from before it started
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+
+        divElementRef.current!.blur();
+
+        cancelDragging();
+      }
     };
 
     const divElement = divElementRef.current!;
     const targetDocument = divElement.ownerDocument;
+    const targetWindow = targetDocument.defaultView!;
+
+    // The pointer may have been released before this effect ran (e.g. a quick click)
+    const capturedPointerId = capturedPointerIdRef.current;
+    if (
+      capturedPointerId !== null &&
+      !divElement.hasPointerCapture(capturedPointerId)
+    ) {
+      stopDraggingAndBlur();
+      return;
+    }
 
+    // Capture is released when the pointer is released or the gesture is cancelled (e.g. by the browser),
+    // so this also covers pointerup and pointercancel events.
     targetDocument.body.addEventListener("contextmenu", stopDraggingAndBlur);
-    targetDocument.body.addEventListener("mousemove", onMove);
-    targetDocument.body.addEventListener("touchmove", onMove);
-    targetDocument.body.addEventListener("mouseleave", onMouseLeave);
-    window.addEventListener("mouseup", stopDraggingAndBlur);
-    window.addEventListener("touchend", stopDraggingAndBlur);
+    divElement.addEventListener("lostpointercapture", stopDraggingAndBlur);
+    divElement.addEventListener("pointermove", onPointerMove);
+    targetWindow.addEventListener("keydown", onKeyDown);
 
     return () => {
       targetDocument.body.removeEventListener(
         "contextmenu",
         stopDraggingAndBlur
       );
-      targetDocument.body.removeEventListener("mousemove", onMove);
-      targetDocument.body.removeEventListener("touchmove", onMove);
-      targetDocument.body.removeEventListener("mouseleave", onMouseLeave);
-      window.removeEventListener("mouseup", stopDraggingAndBlur);
-      window.removeEventListener("touchend", stopDraggingAndBlur);
+      divElement.removeEventListener("lostpointercapture", stopDraggingAndBlur);
+      divElement.removeEventListener("pointermove", onPointerMove);
+      targetWindow.removeEventListener("keydown", onKeyDown);
     };
-  }, [direction, disabled, isDragging, resizeHandler, stopDraggingAndBlur]);
+  }, [
+    cancelDragging,
+    direction,
+    disabled,
+    isDragging,
+    resizeHandler,
+    stopDraggingAndBlur,
+  ]);
 
   useWindowSplitterResizeHandlerBehavior({
     disabled,
+    handleElementRef: divElementRef,
     handleId: resizeHandleId,
     resizeHandler,
   });
 
   const style: CSSProperties = {
-    cursor: getCursorStyle(direction),
+    cursor: getCursorStyle(physicalDirection),
     touchAction: "none",
     userSelect: "none",
   };
 
-  return createElement(Type, {
-    children,
-    className: classNameFromProps,
-    "data-resize-handle-active": isDragging
-      ? "pointer"
-      : isFocused
-      ? "keyboard"
-      : undefined,
-    "data-panel-group-direction": direction,
-    "data-panel-group-id": groupId,
-    "data-panel-resize-handle-enabled": !disabled,
-    "data-panel-resize-handle-id": resizeHandleId,
-    onBlur: () => setIsFocused(false),
-    onFocus: () => setIsFocused(true),
-    onMouseDown: (event: ReactMouseEvent) => {
-      startDragging(resizeHandleId, event.nativeEvent);
+  // The hit area extends the interactive region of the handle
+  // without changing the amount of space it takes up in the group.
+  let hitArea = null;
+  if (hitAreaMargin > 0) {
+    style.position = "relative";
 
-      const { onDragging } = callbacksRef.current!;
-      if (onDragging) {
-        onDragging(true);
-      }
-    },
-    onMouseUp: stopDraggingAndBlur,
-    onTouchCancel: stopDraggingAndBlur,
-    onTouchEnd: stopDraggingAndBlur,
-    onTouchStart: (event: TouchEvent) => {
-      startDragging(resizeHandleId, event.nativeEvent);
+    const isHorizontal = physicalDirection === "horizontal";
 
-      const { onDragging } = callbacksRef.current!;
-      if (onDragging) {
-        onDragging(true);
-      }
-    },
-    ref: divElementRef,
-    role: "separator",
-    style: {
-      ...style,
-      ...styleFromProps,
+    hitArea = createElement("div", {
+      "data-panel-resize-handle-hit-area": "",
+      style: {
+        bottom: isHorizontal ? 0 : -hitAreaMargin,
+        left: isHorizontal ? -hitAreaMargin : 0,
+        position: "absolute",
+        right: isHorizontal ? -hitAreaMargin : 0,
+        top: isHorizontal ? 0 : -hitAreaMargin,
+        zIndex: 1,
+      },
+    });
+  }
+
+  return createElement(
+    Type,
+    {
+      className: classNameFromProps,
+      "data-resize-handle-active": isDragging
+        ? "pointer"
+        : isFocused
+        ? "keyboard"
+        : undefined,
+      "data-panel-group-direction": direction,
+      "data-panel-group-id": groupId,
+      "data-panel-resize-handle-enabled": !disabled,
+      "data-panel-resize-handle-id": resizeHandleId,
+      onBlur: () => {
+        setIsFocused(false);
+        stopKeyboardDragging();
+      },
+      onDoubleClick: () => {
+        if (disabled) {
+          return;
+        }
+
+        const panelIds = applyDoubleClickAction(
+          resizeHandleId,
+          doubleClickAction
+        );
+
+        const { onDoubleClick } = callbacksRef.current;
+        if (onDoubleClick && panelIds !== null) {
+          onDoubleClick(panelIds);
+        }
+      },
+      onFocus: () => setIsFocused(true),
+      onKeyUp: stopKeyboardDragging,
+      onPointerDown: (event: ReactPointerEvent) => {
+        // Ignore additional touch points (e.g. a second finger) during a drag
+        if (!event.isPrimary) {
+          return;
+        }
+
+        // Disabled handles can't be dragged;
+        // the drag would never end, since pointer capture is only tracked for enabled handles.
+        if (disabled || resizeHandler == null) {
+          return;
+        }
+
+        event.currentTarget.setPointerCapture(event.pointerId);
+        capturedPointerIdRef.current = event.pointerId;
+
+        startDraggingAndNotify(event.nativeEvent);
+
+        const intersectingDragHandlers = getIntersectingDragHandlers(
+          event.currentTarget,
+          event.nativeEvent
+        );
+        intersectingDragHandlers.forEach(({ startDragging }) =>
+          startDragging(event.nativeEvent)
+        );
+        intersectingDragHandlersRef.current = intersectingDragHandlers;
+
+        if (intersectingDragHandlers.length > 0) {
+          setGlobalCursorStyle(
+            "intersection",
+            event.currentTarget.ownerDocument
+          );
+        }
+      },
+      onPointerLeave: () => {
+        if (isHoveringIntersectionRef.current) {
+          isHoveringIntersectionRef.current = false;
+
+          if (!isDragging) {
+            resetGlobalCursorStyle();
+          }
+        }
+      },
+      onPointerMove: (event: ReactPointerEvent) => {
+        if (disabled || isDragging) {
+          return;
+        }
+
+        // Show a "move" cursor where this handle meets a handle of the opposite direction
+        const isIntersecting =
+          getIntersectingDragHandlers(event.currentTarget, event.nativeEvent)
+            .length > 0;
+        if (isIntersecting) {
+          isHoveringIntersectionRef.current = true;
+
+          setGlobalCursorStyle(
+            "intersection",
+            event.currentTarget.ownerDocument
+          );
+        } else if (isHoveringIntersectionRef.current) {
+          isHoveringIntersectionRef.current = false;
+
+          resetGlobalCursorStyle();
+        }
+      },
+      ref: divElementRef,
+      role: "separator",
+      style: {
+        ...style,
+        ...styleFromProps,
+      },
+      tabIndex: 0,
     },
-    tabIndex: 0,
-  });
+    children,
+    hitArea
+  );
 }
 
 PanelResizeHandle.displayName = "PanelResizeHandle";
@@ -1 +1,7 @@
 export const PRECISION = 10;
+
+// Default distance (as a percentage of the group) within which a dragged panel will snap to one of its snap points.
+export const DEFAULT_SNAP_THRESHOLD = 2;
+
+// Distance (in pixels) beyond a resize handle's bounds within which it is considered to intersect another handle.
+export const INTERSECTING_HANDLE_MARGIN = 5;
@@ -4,17 +4,18 @@ import { PRECISION } from "../constants";
 import { CommittedValues, PanelDataMap } from "../PanelGroup";
 import { ResizeHandler } from "../types";
 import {
-  adjustByDelta,
+  adjustPanelGroupByDelta,
   getPanel,
-  getPanelGroup,
-  getResizeHandle,
   getResizeHandleIndex,
   getResizeHandlePanelIds,
   getResizeHandles,
   getResizeHandlesForGroup,
   getFlexGrow,
+  getGroupSizePixels,
+  getPanelConstraints,
   panelsMapToSortedArray,
 } from "../utils/group";
+import { normalizePanelConstraints } from "../utils/layout";
 import { assert } from "../utils/assert";
 
 // https://www.w3.org/WAI/ARIA/apg/patterns/windowsplitter/
@@ -22,6 +23,7 @@ import { assert } from "../utils/assert";
 export function useWindowSplitterPanelGroupBehavior({
   committedValuesRef,
   groupId,
+  panelGroupElementRef,
   panels,
   setSizes,
   sizes,
@@ -29,26 +31,39 @@ export function useWindowSplitterPanelGroupBehavior({
 }: {
   committedValuesRef: RefObject<CommittedValues>;
   groupId: string;
+  panelGroupElementRef: RefObject<HTMLElement>;
   panels: PanelDataMap;
   setSizes: (sizes: number[]) => void;
   sizes: number[];
   panelSizeBeforeCollapse: RefObject<Map<string, number>>;
 }): void {
   useEffect(() => {
-    const { direction, panels } = committedValuesRef.current!;
+    const { direction, panels, units } = committedValuesRef.current!;
 
-    const groupElement = getPanelGroup(groupId);
+    const groupElement = panelGroupElementRef.current;
     assert(groupElement != null, `No group found for id "${groupId}"`);
 
     const { height, width } = groupElement.getBoundingClientRect();
 
-    const handles = getResizeHandlesForGroup(groupId);
+    const panelsArray = panelsMapToSortedArray(panels);
+    const groupSizePixels = getGroupSizePixels(
+      groupElement,
+      units,
+      panelsArray
+    );
+
+    // Constraints need to be compared to sizes, so they must be normalized to percentages first.
+    const panelConstraintsArray = getPanelConstraints(panelsArray).map(
+      (panelConstraints) =>
+        normalizePanelConstraints(panelConstraints, units, groupSizePixels)
+    );
+
+    const handles = getResizeHandlesForGroup(groupElement);
     const cleanupFunctions = handles.map((handle) => {
       const handleId = handle.getAttribute("data-panel-resize-handle-id")!;
-      const panelsArray = panelsMapToSortedArray(panels);
 
       const [idBefore, idAfter] = getResizeHandlePanelIds(
-        groupId,
+        groupElement,
         handleId,
         panelsArray
       );
@@ -62,8 +77,9 @@ export function useWindowSplitterPanelGroupBehavior({
       let totalMaxSize = 0;
 
       // A panel's effective min/max sizes also need to account for other panel's sizes.
-      panelsArray.forEach((panelData) => {
-        const { id, maxSize, minSize } = panelData.current;
+      panelConstraintsArray.forEach((panelConstraints, index) => {
+        const { maxSize, minSize } = panelConstraints;
+        const { id } = panelsArray[index].current;
         if (id === idBefore) {
           currentMinSize = minSize;
           currentMaxSize = maxSize != null ? maxSize : 100;
@@ -83,7 +99,10 @@ export function useWindowSplitterPanelGroupBehavior({
 
       handle.setAttribute("aria-valuemax", "" + Math.round(ariaValueMax));
       handle.setAttribute("aria-valuemin", "" + Math.round(ariaValueMin));
-      handle.setAttribute("aria-valuenow", "" + Math.round(parseInt(flexGrow)));
+      handle.setAttribute(
+        "aria-valuenow",
+        "" + Math.round(parseFloat(flexGrow))
+      );
 
       const onKeyDown = (event: KeyboardEvent) => {
         if (event.defaultPrevented) {
@@ -98,21 +117,21 @@ export function useWindowSplitterPanelGroupBehavior({
               (panel) => panel.current.id === idBefore
             );
             if (index >= 0) {
-              const panelData = panelsArray[index];
+              const { minSize } = panelConstraintsArray[index];
               const size = sizes[index];
               if (size != null) {
                 let delta = 0;
                 if (
-                  size.toPrecision(PRECISION) <=
-                  panelData.current.minSize.toPrecision(PRECISION)
+                  size.toPrecision(PRECISION) <= minSize.toPrecision(PRECISION)
                 ) {
                   delta = direction === "horizontal" ? width : height;
                 } else {
                   delta = -(direction === "horizontal" ? width : height);
                 }
 
-                const nextSizes = adjustByDelta(
+                const nextSizes = adjustPanelGroupByDelta(
                   event,
+                  groupElement,
                   committedValuesRef.current!,
                   idBefore,
                   idAfter,
@@ -133,7 +152,7 @@ export function useWindowSplitterPanelGroupBehavior({
 
       handle.addEventListener("keydown", onKeyDown);
 
-      const panelBefore = getPanel(idBefore);
+      const panelBefore = getPanel(idBefore, groupElement);
       if (panelBefore != null) {
         handle.setAttribute("aria-controls", panelBefore.id);
       }
@@ -157,6 +176,7 @@ export function useWindowSplitterPanelGroupBehavior({
   }, [
     committedValuesRef,
     groupId,
+    panelGroupElementRef,
     panels,
     panelSizeBeforeCollapse,
     setSizes,
@@ -166,10 +186,12 @@ export function useWindowSplitterPanelGroupBehavior({
 
 export function useWindowSplitterResizeHandlerBehavior({
   disabled,
+  handleElementRef,
   handleId,
   resizeHandler,
 }: {
   disabled: boolean;
+  handleElementRef: RefObject<HTMLElement>;
   handleId: string;
   resizeHandler: ResizeHandler | null;
 }): void {
@@ -178,11 +200,14 @@ export function useWindowSplitterResizeHandlerBehavior({
       return;
     }
 
-    const handleElement = getResizeHandle(handleId);
+    const handleElement = handleElementRef.current;
     if (handleElement == null) {
       return;
     }
 
+    // Handles of other groups within the same document (or shadow root) can be cycled through
+    const scope = handleElement.getRootNode() as ParentNode;
+
     const onKeyDown = (event: KeyboardEvent) => {
       if (event.defaultPrevented) {
         return;
@@ -203,8 +228,8 @@ export function useWindowSplitterResizeHandlerBehavior({
         case "F6": {
           event.preventDefault();
 
-          const handles = getResizeHandles();
-          const index = getResizeHandleIndex(handleId);
+          const handles = getResizeHandles(scope);
+          const index = getResizeHandleIndex(handleId, scope);
 
           assert(index !== null);
 
@@ -228,5 +253,5 @@ export function useWindowSplitterResizeHandlerBehavior({
     return () => {
       handleElement.removeEventListener("keydown", onKeyDown);
     };
-  }, [disabled, handleId, resizeHandler]);
+  }, [disabled, handleElementRef, handleId, resizeHandler]);
 }
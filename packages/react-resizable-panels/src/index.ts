@@ -7,11 +7,23 @@ import type { ImperativePanelGroupHandle, PanelGroupProps } from "./PanelGroup";
 import type { PanelResizeHandleProps } from "./PanelResizeHandle";
 import { getAvailableGroupSizePixels } from "./utils/group";
 import type {
+  PanelGroupCascadeStrategy,
   PanelGroupOnLayout,
+  PanelGroupOnLayoutChange,
   PanelGroupStorage,
+  PanelGroupTransition,
   PanelOnCollapse,
   PanelOnResize,
+  PanelResizeBehavior,
+  PanelResizeHandleDoubleClickAction,
+  PanelResizeHandleDragInputType,
+  PanelResizeHandleDragState,
+  PanelResizeHandleHitAreaMargins,
+  PanelResizeHandleOnDoubleClick,
+  PanelResizeHandleOnDrag,
   PanelResizeHandleOnDragging,
+  PanelSize,
+  PanelSizeUnit,
   Units,
 } from "./types";
 
@@ -21,12 +33,24 @@ export {
   ImperativePanelHandle,
   PanelOnCollapse,
   PanelOnResize,
+  PanelGroupCascadeStrategy,
   PanelGroupOnLayout,
+  PanelGroupOnLayoutChange,
   PanelGroupProps,
   PanelGroupStorage,
+  PanelGroupTransition,
   PanelProps,
+  PanelResizeBehavior,
+  PanelResizeHandleDoubleClickAction,
+  PanelResizeHandleDragInputType,
+  PanelResizeHandleDragState,
+  PanelResizeHandleHitAreaMargins,
+  PanelResizeHandleOnDoubleClick,
+  PanelResizeHandleOnDrag,
   PanelResizeHandleOnDragging,
   PanelResizeHandleProps,
+  PanelSize,
+  PanelSizeUnit,
   Units,
 
   // React components
@@ -0,0 +1,52 @@
+// Framework-agnostic layout engine used by PanelGroup.
+// These methods don't depend on React or the DOM,
+// so they can be used to compute (or test) layouts on the server or outside of React.
+
+import type {
+  NormalizedPanelConstraints,
+  PanelConstraints,
+  PanelGroupCascadeStrategy,
+  PanelResizeBehavior,
+  PanelSize,
+  PanelSizeUnit,
+  ResizeTrigger,
+  Units,
+} from "./types";
+import {
+  adjustByDelta,
+  adjustLayoutForGroupResize,
+  calculateDefaultLayout,
+  convertPanelSizeToPercentage,
+  convertPercentageToPixels,
+  convertPixelsToPercentage,
+  hasPixelConstraints,
+  normalizePanelConstraints,
+  parsePanelSize,
+  safeResizePanel,
+  validatePanelGroupLayout,
+} from "./utils/layout";
+
+export {
+  // TypeScript types
+  NormalizedPanelConstraints,
+  PanelConstraints,
+  PanelGroupCascadeStrategy,
+  PanelResizeBehavior,
+  PanelSize,
+  PanelSizeUnit,
+  ResizeTrigger,
+  Units,
+
+  // Layout methods
+  adjustByDelta,
+  adjustLayoutForGroupResize,
+  calculateDefaultLayout,
+  convertPanelSizeToPercentage,
+  convertPercentageToPixels,
+  convertPixelsToPercentage,
+  hasPixelConstraints,
+  normalizePanelConstraints,
+  parsePanelSize,
+  safeResizePanel,
+  validatePanelGroupLayout,
+};
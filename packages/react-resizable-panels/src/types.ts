@@ -3,34 +3,156 @@ import { RefObject } from "./vendor/react";
 export type Direction = "horizontal" | "vertical";
 export type Units = "percentages" | "pixels";
 
+// Panel size constraints can be specified in either unit, regardless of the group's units.
+// Plain numbers are interpreted using the group's units.
+export type PanelSizeUnit = "%" | "px";
+export type PanelSize =
+  | number
+  | `${number}%`
+  | `${number}px`
+  | { unit: PanelSizeUnit; value: number };
+
+// Determines how a panel's size changes when the size of its group changes:
+// "proportional" panels keep their percentage of the group,
+// "fixed" panels keep their pixel size,
+// and "fill" panels absorb the space gained or lost by "fixed" panels.
+export type PanelResizeBehavior = "fill" | "fixed" | "proportional";
+
+// Imperative layout changes (collapse, expand, resize, setLayout) can optionally be animated,
+// either for a fixed duration (using an easing function) or using a spring.
+export type PanelGroupTweenTransition = {
+  duration?: number;
+  easing?: (progress: number) => number;
+  type?: "tween";
+};
+export type PanelGroupSpringTransition = {
+  damping?: number;
+  mass?: number;
+  stiffness?: number;
+  type: "spring";
+};
+export type PanelGroupTransition =
+  | PanelGroupSpringTransition
+  | PanelGroupTweenTransition;
+
+// Determines which panels give up space when a resize handle is moved:
+// "nearest" shrinks the nearest panel first (until it reaches its min size) before moving on to the next one,
+// "neighbors" only ever shrinks the panel adjacent to the resize handle,
+// "proportional" shrinks all panels on that side of the handle in proportion to their current sizes,
+// and "weighted" shrinks them in proportion to their shrinkPriority.
+export type PanelGroupCascadeStrategy =
+  | "nearest"
+  | "neighbors"
+  | "proportional"
+  | "weighted";
+
+// Storage methods can optionally be asynchronous (e.g. for IndexedDB or a backend API).
+// If provided, removeItem is used to clean up layouts saved in older formats once they have been migrated,
+// and subscribe is used to be notified of items changed elsewhere (e.g. by another tab) when syncing layouts.
 export type PanelGroupStorage = {
-  getItem(name: string): string | null;
-  setItem(name: string, value: string): void;
+  getItem(name: string): string | null | Promise<string | null>;
+  removeItem?(name: string): void | Promise<void>;
+  setItem(name: string, value: string): void | Promise<void>;
+  subscribe?(callback: (name: string) => void): () => void;
 };
 
 export type PanelGroupOnLayout = (sizes: number[]) => void;
+export type PanelGroupOnLayoutChange = (layout: number[]) => void;
 export type PanelOnCollapse = (collapsed: boolean) => void;
 export type PanelOnResize = (size: number, prevSize: number) => void;
 export type PanelResizeHandleOnDragging = (isDragging: boolean) => void;
 
+// Passed to the onDragStart, onDrag, and onDragEnd callbacks of a resize handle.
+// Keyboard "drags" start with the first key press that resizes the panels
+// and end once the key is released (or the handle loses focus).
+export type PanelResizeHandleDragInputType = "keyboard" | "pointer";
+export type PanelResizeHandleDragState = {
+  handleId: string;
+  initialLayout: number[];
+  inputType: PanelResizeHandleDragInputType;
+  layout: number[];
+  panelIds: [idBefore: string, idAfter: string];
+};
+export type PanelResizeHandleOnDrag = (
+  dragState: PanelResizeHandleDragState
+) => void;
+
+// Double-clicking a resize handle can optionally
+// reset the panels on either side of it to their default sizes,
+// toggle the collapsed state of the (collapsible) panel next to it,
+// or split the space between the panels on either side of it equally.
+export type PanelResizeHandleDoubleClickAction =
+  | "equalize"
+  | "reset"
+  | "toggle-collapse";
+export type PanelResizeHandleOnDoubleClick = (
+  panelIds: [idBefore: string, idAfter: string]
+) => void;
+
+// Distance (in pixels) the interactive area of a resize handle extends beyond its visible bounds,
+// for coarse (e.g. touch) and fine (e.g. mouse) pointers.
+export type PanelResizeHandleHitAreaMargins = {
+  coarse: number;
+  fine: number;
+};
+
 export type PanelCallbackRef = RefObject<{
   onCollapse: PanelOnCollapse | null;
   onResize: PanelOnResize | null;
 }>;
 
+export type PanelResizeHandleCallbackRef = RefObject<{
+  onDrag: PanelResizeHandleOnDrag | undefined;
+  onDragEnd: PanelResizeHandleOnDrag | undefined;
+  onDragStart: PanelResizeHandleOnDrag | undefined;
+}>;
+
+// Size constraints for a single Panel, as consumed by the layout engine (utils/layout).
+// The id is optional and only used for error messages.
+export type PanelConstraints = {
+  collapsedSize: PanelSize;
+  collapsible: boolean;
+  defaultSize: PanelSize | null;
+  id?: string;
+  maxSize: PanelSize | null;
+  minSize: PanelSize;
+  resizeBehavior?: PanelResizeBehavior;
+  shrinkPriority?: number;
+  snapPoints?: PanelSize[];
+  snapThreshold?: PanelSize | null;
+};
+
+// Panel constraints converted to percentages of the group's size.
+export type NormalizedPanelConstraints = {
+  collapsedSize: number;
+  collapsible: boolean;
+  defaultSize: number | null;
+  id?: string;
+  maxSize: number | null;
+  minSize: number;
+  snapPoints: number[];
+  snapThreshold: number;
+};
+
 export type PanelData = {
   current: {
     callbacksRef: PanelCallbackRef;
-    collapsedSize: number;
+    collapsedSize: PanelSize;
     collapsible: boolean;
-    defaultSize: number | null;
+    defaultSize: PanelSize | null;
     id: string;
     idWasAutoGenerated: boolean;
-    maxSize: number | null;
-    minSize: number;
+    maxSize: PanelSize | null;
+    minSize: PanelSize;
     order: number | null;
+    resizeBehavior: PanelResizeBehavior;
+    shrinkPriority: number;
+    snapPoints: PanelSize[];
+    snapThreshold: PanelSize | null;
   };
 };
 
-export type ResizeEvent = KeyboardEvent | MouseEvent | TouchEvent;
+export type ResizeTrigger = "imperative-api" | "keyboard" | "pointer";
+
+export type ResizeEvent = KeyboardEvent | PointerEvent;
 export type ResizeHandler = (event: ResizeEvent) => void;
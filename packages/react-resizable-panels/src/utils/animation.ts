@@ -0,0 +1,120 @@
+import {
+  PanelGroupSpringTransition,
+  PanelGroupTransition,
+  PanelGroupTweenTransition,
+} from "../types";
+
+const DEFAULT_DURATION_MS = 250;
+const DEFAULT_SPRING_DAMPING = 26;
+const DEFAULT_SPRING_MASS = 1;
+const DEFAULT_SPRING_STIFFNESS = 170;
+
+// Springs are simulated in fixed steps so that they behave the same regardless of frame rate.
+const SPRING_STEP_MS = 1;
+const SPRING_REST_THRESHOLD = 0.001;
+
+// Animates from one layout to another, calling onFrame with the interpolated layout each frame.
+// The final frame is always called with the exact target layout.
+// Returns a function that can be used to cancel the animation (e.g. if the user starts dragging).
+export function animateLayout({
+  from,
+  onFrame,
+  targetWindow,
+  to,
+  transition,
+}: {
+  from: number[];
+  onFrame: (layout: number[]) => void;
+  targetWindow: Window;
+  to: number[];
+  transition: PanelGroupTransition;
+}): () => void {
+  const getProgress =
+    transition.type === "spring"
+      ? createSpring(transition)
+      : createTween(transition);
+
+  let animationFrameId: number | null = null;
+  let startTime: number | null = null;
+
+  const tick = (time: number) => {
+    if (startTime === null) {
+      startTime = time;
+    }
+
+    const [progress, isDone] = getProgress(time - startTime);
+    if (isDone) {
+      animationFrameId = null;
+
+      onFrame(to);
+    } else {
+      animationFrameId = targetWindow.requestAnimationFrame(tick);
+
+      // Interpolating every panel by the same amount ensures the layout always totals 100%.
+      onFrame(from.map((size, index) => size + (to[index] - size) * progress));
+    }
+  };
+
+  animationFrameId = targetWindow.requestAnimationFrame(tick);
+
+  return () => {
+    if (animationFrameId !== null) {
+      targetWindow.cancelAnimationFrame(animationFrameId);
+      animationFrameId = null;
+    }
+  };
+}
+
+export function prefersReducedMotion(targetWindow: Window): boolean {
+  return (
+    typeof targetWindow.matchMedia === "function" &&
+    targetWindow.matchMedia("(prefers-reduced-motion: reduce)").matches
+  );
+}
+
+function createSpring({
+  damping = DEFAULT_SPRING_DAMPING,
+  mass = DEFAULT_SPRING_MASS,
+  stiffness = DEFAULT_SPRING_STIFFNESS,
+}: PanelGroupSpringTransition) {
+  let elapsedMs = 0;
+  let position = 0;
+  let velocity = 0;
+
+  return (timeMs: number): [progress: number, isDone: boolean] => {
+    while (elapsedMs < timeMs) {
+      const force = -stiffness * (position - 1) - damping * velocity;
+
+      velocity += (force / mass) * (SPRING_STEP_MS / 1000);
+      position += velocity * (SPRING_STEP_MS / 1000);
+
+      elapsedMs += SPRING_STEP_MS;
+    }
+
+    const isDone =
+      Math.abs(1 - position) < SPRING_REST_THRESHOLD &&
+      Math.abs(velocity) < SPRING_REST_THRESHOLD;
+
+    // Overshooting the target layout could violate panel min/max constraints.
+    return [Math.min(1, position), isDone];
+  };
+}
+
+function createTween({
+  duration = DEFAULT_DURATION_MS,
+  easing = easeInOutCubic,
+}: PanelGroupTweenTransition) {
+  return (timeMs: number): [progress: number, isDone: boolean] => {
+    if (timeMs >= duration) {
+      return [1, true];
+    }
+
+    return [easing(timeMs / duration), false];
+  };
+}
+
+function easeInOutCubic(progress: number): number {
+  return progress < 0.5
+    ? 4 * progress * progress * progress
+    : 1 - Math.pow(-2 * progress + 2, 3) / 2;
+}
@@ -1,11 +1,19 @@
 import { PRECISION } from "../constants";
 import { InitialDragState } from "../PanelGroup";
-import { Direction, PanelData, ResizeEvent } from "../types";
 import {
-  getPanelGroup,
+  Direction,
+  PanelData,
+  ResizeEvent,
+  ResizeTrigger,
+  Units,
+} from "../types";
+import {
+  getGroupAvailableSizePixels,
+  getGroupSizePixels,
   getResizeHandle,
   getResizeHandlePanelIds,
 } from "./group";
+import { normalizePanelConstraints } from "./layout";
 
 export type Coordinates = {
   movement: number;
@@ -19,38 +27,37 @@ export type Size = {
 
 export function getDragOffset(
   event: ResizeEvent,
-  handleId: string,
+  handleElementRect: DOMRect,
   direction: Direction,
-  initialOffset: number = 0,
-  initialHandleElementRect: DOMRect | null = null
+  initialOffset: number = 0
 ): number {
   const isHorizontal = direction === "horizontal";
 
+  // Mouse, touch, and pen input all report client coordinates,
+  // which share a coordinate space with getBoundingClientRect()
   let pointerOffset = 0;
-  if (isMouseEvent(event)) {
+  if (isPointerEvent(event)) {
     pointerOffset = isHorizontal ? event.clientX : event.clientY;
-  } else if (isTouchEvent(event)) {
-    const firstTouch = event.touches[0];
-    pointerOffset = isHorizontal ? firstTouch.screenX : firstTouch.screenY;
   } else {
     return 0;
   }
 
-  const handleElement = getResizeHandle(handleId)!;
-  const rect =
-    initialHandleElementRect || handleElement.getBoundingClientRect();
-  const elementOffset = isHorizontal ? rect.left : rect.top;
+  const elementOffset = isHorizontal
+    ? handleElementRect.left
+    : handleElementRect.top;
 
   return pointerOffset - elementOffset - initialOffset;
 }
 
 // https://developer.mozilla.org/en-US/docs/Web/API/MouseEvent/movementX
+// Movement is measured in the group's own (layout) pixels, like getGroupAvailableSizePixels().
 export function getMovement(
   event: ResizeEvent,
-  groupId: string,
+  groupElement: HTMLElement,
   handleId: string,
   panelsArray: PanelData[],
   direction: Direction,
+  units: Units,
   prevSizes: number[],
   initialDragState: InitialDragState | null
 ): number {
@@ -60,16 +67,22 @@ export function getMovement(
     sizes: initialSizes,
   } = initialDragState || {};
 
-  // If we're resizing by mouse or touch, use the initial sizes as a base.
+  // If we're resizing by pointer, use the initial sizes as a base.
   // This has the benefit of causing force-collapsed panels to spring back open if drag is reversed.
   const baseSizes = initialSizes || prevSizes;
 
-  if (isKeyDown(event)) {
-    const isHorizontal = direction === "horizontal";
+  // Movements are measured along the axis the panels are laid out along on screen,
+  // and mirrored when panels are laid out in reverse (e.g. for RTL layouts)
+  // since the panels before a handle are then to the right of (or below) it.
+  const { direction: physicalDirection, isReversed } = getPhysicalDirection(
+    groupElement,
+    direction
+  );
+  const isHorizontal = physicalDirection === "horizontal";
 
-    const groupElement = getPanelGroup(groupId)!;
-    const rect = groupElement.getBoundingClientRect();
-    const groupSizeInPixels = isHorizontal ? rect.width : rect.height;
+  if (isKeyDown(event)) {
+    // Keyboard steps are 1% (or 10%) of the layout, which excludes resize handles
+    const groupSizeInPixels = getGroupAvailableSizePixels(groupElement);
 
     const denominator = event.shiftKey ? 10 : 100;
     const delta = groupSizeInPixels / denominator;
@@ -96,12 +109,17 @@ export function getMovement(
         break;
     }
 
+    // Home and End resize the panel before the handle to its min/max size, regardless of direction
+    if (isReversed && event.key.startsWith("Arrow")) {
+      movement = -movement;
+    }
+
     // If the Panel being resized is collapsible,
     // we need to special case resizing around the minSize boundary.
     // If contracting, Panels should shrink to their minSize and then snap to fully collapsed.
     // If expanding from collapsed, they should snap back to their minSize.
     const [idBefore, idAfter] = getResizeHandlePanelIds(
-      groupId,
+      groupElement,
       handleId,
       panelsArray
     );
@@ -111,39 +129,114 @@ export function getMovement(
     );
     const targetPanel = panelsArray[targetPanelIndex];
     if (targetPanel.current.collapsible) {
+      const { minSize } = normalizePanelConstraints(
+        targetPanel.current,
+        units,
+        getGroupSizePixels(groupElement, units, panelsArray)
+      );
+
       const baseSize = baseSizes[targetPanelIndex];
       if (
         baseSize === 0 ||
-        baseSize.toPrecision(PRECISION) ===
-          targetPanel.current.minSize.toPrecision(PRECISION)
+        baseSize.toPrecision(PRECISION) === minSize.toPrecision(PRECISION)
       ) {
         movement =
           movement < 0
-            ? -targetPanel.current.minSize * groupSizeInPixels
-            : targetPanel.current.minSize * groupSizeInPixels;
+            ? -minSize * groupSizeInPixels
+            : minSize * groupSizeInPixels;
       }
     }
 
     return movement;
   } else {
-    return getDragOffset(
+    const handleElementRect =
+      dragHandleRect ??
+      getResizeHandle(handleId, groupElement)!.getBoundingClientRect();
+
+    const movement = getDragOffset(
       event,
-      handleId,
-      direction,
-      dragOffset,
-      dragHandleRect
+      handleElementRect,
+      physicalDirection,
+      dragOffset
     );
+
+    // Pointer coordinates are in screen pixels
+    const scale = getScale(groupElement, physicalDirection);
+
+    return (isReversed ? -movement : movement) / scale;
   }
 }
 
-export function isKeyDown(event: ResizeEvent): event is KeyboardEvent {
-  return event.type === "keydown";
+// A group's direction refers to its flex direction (row or column),
+// which only lines up with the same screen axis for horizontal writing modes.
+// This resolves it (based on the computed style, so that dir attributes on ancestors are respected)
+// to the screen axis panels are laid out along and whether they are laid out in reverse
+// (e.g. right to left for RTL layouts or bottom to top for "sideways-lr" writing modes).
+export function getPhysicalDirection(
+  element: Element,
+  direction: Direction
+): { direction: Direction; isReversed: boolean } {
+  const { defaultView } = element.ownerDocument;
+  const { direction: textDirection, writingMode } =
+    defaultView!.getComputedStyle(element);
+
+  const isRTL = textDirection === "rtl";
+
+  switch (writingMode) {
+    case "sideways-lr":
+    case "sideways-rl":
+    case "vertical-lr":
+    case "vertical-rl": {
+      if (direction === "horizontal") {
+        // Rows follow the inline axis, which runs top to bottom (except for "sideways-lr")
+        return {
+          direction: "vertical",
+          isReversed: isRTL !== (writingMode === "sideways-lr"),
+        };
+      } else {
+        // Columns follow the block axis
+        return {
+          direction: "horizontal",
+          isReversed: writingMode.endsWith("-rl"),
+        };
+      }
+    }
+    default: {
+      return {
+        direction,
+        isReversed: direction === "horizontal" && isRTL,
+      };
+    }
+  }
+}
+
+export function getResizeTrigger(event: ResizeEvent | null): ResizeTrigger {
+  if (event === null) {
+    return "imperative-api";
+  } else if (isKeyDown(event)) {
+    return "keyboard";
+  } else {
+    return "pointer";
+  }
 }
 
-export function isMouseEvent(event: ResizeEvent): event is MouseEvent {
-  return event.type.startsWith("mouse");
+// Ratio of screen pixels to the element's own (layout) pixels,
+// which differ when it is rendered within a container scaled by a CSS transform (or zoom).
+export function getScale(element: HTMLElement, direction: Direction): number {
+  const rect = element.getBoundingClientRect();
+
+  const [screenSize, layoutSize] =
+    direction === "horizontal"
+      ? [rect.width, element.offsetWidth]
+      : [rect.height, element.offsetHeight];
+
+  return screenSize > 0 && layoutSize > 0 ? screenSize / layoutSize : 1;
+}
+
+export function isKeyDown(event: ResizeEvent): event is KeyboardEvent {
+  return event.type === "keydown";
 }
 
-export function isTouchEvent(event: ResizeEvent): event is TouchEvent {
-  return event.type.startsWith("touch");
+export function isPointerEvent(event: ResizeEvent): event is PointerEvent {
+  return event.type.startsWith("pointer");
 }
@@ -1,7 +1,9 @@
+// Cursor states refer to screen axes (which may differ from a group's direction in vertical writing modes).
 type CursorState =
   | "horizontal"
   | "horizontal-max"
   | "horizontal-min"
+  | "intersection"
   | "vertical"
   | "vertical-max"
   | "vertical-min";
@@ -17,6 +19,8 @@ export function getCursorStyle(state: CursorState): string {
       return "w-resize";
     case "horizontal-min":
       return "e-resize";
+    case "intersection":
+      return "move";
     case "vertical":
       return "ns-resize";
     case "vertical-max":
@@ -28,14 +32,23 @@ export function getCursorStyle(state: CursorState): string {
 
 export function resetGlobalCursorStyle() {
   if (element !== null) {
-    document.head.removeChild(element);
+    element.ownerDocument.head.removeChild(element);
 
     currentState = null;
     element = null;
   }
 }
 
-export function setGlobalCursorStyle(state: CursorState) {
+// The style is injected into the document the group is rendered in,
+// which may not be the global document (e.g. for a group rendered into a popout window).
+export function setGlobalCursorStyle(
+  state: CursorState,
+  targetDocument: Document
+) {
+  if (element !== null && element.ownerDocument !== targetDocument) {
+    resetGlobalCursorStyle();
+  }
+
   if (currentState === state) {
     return;
   }
@@ -45,9 +58,9 @@ export function setGlobalCursorStyle(state: CursorState) {
   const style = getCursorStyle(state);
 
   if (element === null) {
-    element = document.createElement("style");
+    element = targetDocument.createElement("style");
 
-    document.head.appendChild(element);
+    targetDocument.head.appendChild(element);
   }
 
   element.innerHTML = `*{cursor: ${style}!important;}`;
@@ -1,22 +1,37 @@
 import { isDevelopment } from "#is-development";
 import { CommittedValues, InitialDragState } from "../PanelGroup";
 import { PRECISION } from "../constants";
-import { PanelData, ResizeEvent, Units } from "../types";
-
-export function adjustByDelta(
+import {
+  Direction,
+  PanelConstraints,
+  PanelData,
+  PanelSize,
+  ResizeEvent,
+  Units,
+} from "../types";
+import { getPhysicalDirection, getResizeTrigger } from "./coordinates";
+import {
+  adjustByDelta,
+  convertPanelSizeToPercentage,
+  formatPanelSize,
+  hasPixelConstraints,
+  normalizePanelConstraints,
+  parsePanelSize,
+} from "./layout";
+
+// Adapts committed PanelGroup state to the layout engine's adjustByDelta method.
+export function adjustPanelGroupByDelta(
   event: ResizeEvent | null,
+  panelGroupElement: HTMLElement,
   committedValues: CommittedValues,
   idBefore: string,
   idAfter: string,
-  deltaPixels: number,
+  delta: number,
   prevSizes: number[],
   panelSizeBeforeCollapse: Map<string, number>,
   initialDragState: InitialDragState | null
 ): number[] {
-  const { id: groupId, panels, units } = committedValues;
-
-  const groupSizePixels =
-    units === "pixels" ? getAvailableGroupSizePixels(groupId) : NaN;
+  const { cascadeStrategy, panels, units } = committedValues;
 
   const { sizes: initialSizes } = initialDragState || {};
 
@@ -25,109 +40,41 @@ export function adjustByDelta(
   const baseSizes = initialSizes || prevSizes;
 
   const panelsArray = panelsMapToSortedArray(panels);
+  const panelConstraints = getPanelConstraints(panelsArray);
 
-  const nextSizes = baseSizes.concat();
-
-  let deltaApplied = 0;
-
-  // A resizing panel affects the panels before or after it.
-  //
-  // A negative delta means the panel immediately after the resizer should grow/expand by decreasing its offset.
-  // Other panels may also need to shrink/contract (and shift) to make room, depending on the min weights.
-  //
-  // A positive delta means the panel immediately before the resizer should "expand".
-  // This is accomplished by shrinking/contracting (and shifting) one or more of the panels after the resizer.
-
-  // Max-bounds check the panel being expanded first.
-  {
-    const pivotId = deltaPixels < 0 ? idAfter : idBefore;
-    const index = panelsArray.findIndex(
-      (panel) => panel.current.id === pivotId
-    );
-    const panel = panelsArray[index];
-    const baseSize = baseSizes[index];
-
-    const nextSize = safeResizePanel(
-      units,
-      groupSizePixels,
-      panel,
-      baseSize,
-      baseSize + Math.abs(deltaPixels),
-      event
-    );
-    if (baseSize === nextSize) {
-      // If there's no room for the pivot panel to grow, we can ignore this drag update.
-      return baseSizes;
-    } else {
-      if (nextSize === 0 && baseSize > 0) {
-        panelSizeBeforeCollapse.set(pivotId, baseSize);
-      }
+  const groupSizePixels = getGroupSizePixels(
+    panelGroupElement,
+    units,
+    panelsArray
+  );
 
-      deltaPixels = deltaPixels < 0 ? baseSize - nextSize : nextSize - baseSize;
-    }
-  }
+  const nextSizes = adjustByDelta({
+    cascadeStrategy,
+    delta,
+    groupSizePixels,
+    layout: baseSizes,
+    panelConstraints,
+    pivotIndices: [
+      panelsArray.findIndex((panel) => panel.current.id === idBefore),
+      panelsArray.findIndex((panel) => panel.current.id === idAfter),
+    ],
+    trigger: getResizeTrigger(event),
+    units,
+  });
 
-  let pivotId = deltaPixels < 0 ? idBefore : idAfter;
-  let index = panelsArray.findIndex((panel) => panel.current.id === pivotId);
-  while (true) {
-    const panel = panelsArray[index];
+  // Remember the size of any panel that was collapsed as a result of this change;
+  // this is the size it should be restored to if it is later expanded.
+  nextSizes.forEach((nextSize, index) => {
     const baseSize = baseSizes[index];
-
-    const deltaRemaining = Math.abs(deltaPixels) - Math.abs(deltaApplied);
-
-    const nextSize = safeResizePanel(
+    const { collapsedSize, collapsible } = normalizePanelConstraints(
+      panelConstraints[index],
       units,
-      groupSizePixels,
-      panel,
-      baseSize,
-      baseSize - deltaRemaining,
-      event
+      groupSizePixels
     );
-    if (baseSize !== nextSize) {
-      if (nextSize === 0 && baseSize > 0) {
-        panelSizeBeforeCollapse.set(panel.current.id, baseSize);
-      }
-
-      deltaApplied += baseSize - nextSize;
-
-      nextSizes[index] = nextSize;
-
-      if (
-        deltaApplied
-          .toPrecision(PRECISION)
-          .localeCompare(
-            Math.abs(deltaPixels).toPrecision(PRECISION),
-            undefined,
-            {
-              numeric: true,
-            }
-          ) >= 0
-      ) {
-        break;
-      }
-    }
-
-    if (deltaPixels < 0) {
-      if (--index < 0) {
-        break;
-      }
-    } else {
-      if (++index >= panelsArray.length) {
-        break;
-      }
+    if (collapsible && nextSize === collapsedSize && baseSize > collapsedSize) {
+      panelSizeBeforeCollapse.set(panelsArray[index].current.id, baseSize);
     }
-  }
-
-  // If we were unable to resize any of the panels panels, return the previous state.
-  // This will essentially bailout and ignore the "mousemove" event.
-  if (deltaApplied === 0) {
-    return baseSizes;
-  }
-
-  // Adjust the pivot panel before, but only by the amount that surrounding panels were able to shrink/contract.
-  pivotId = deltaPixels < 0 ? idAfter : idBefore;
-  index = panelsArray.findIndex((panel) => panel.current.id === pivotId);
-  nextSizes[index] = baseSizes[index] + deltaApplied;
+  });
 
   return nextSizes;
 }
@@ -135,7 +82,9 @@ export function adjustByDelta(
 export function callPanelCallbacks(
   panelsArray: PanelData[],
   sizes: number[],
-  panelIdToLastNotifiedSizeMap: Record<string, number>
+  panelIdToLastNotifiedSizeMap: Record<string, number>,
+  units: Units,
+  groupSizePixels: number
 ) {
   sizes.forEach((size, index) => {
     const panelRef = panelsArray[index];
@@ -145,7 +94,12 @@ export function callPanelCallbacks(
       return;
     }
 
-    const { callbacksRef, collapsedSize, collapsible, id } = panelRef.current;
+    const { callbacksRef, collapsible, id } = panelRef.current;
+    const collapsedSize = convertPanelSizeToPercentage(
+      panelRef.current.collapsedSize,
+      units,
+      groupSizePixels
+    );
 
     const lastNotifiedSize = panelIdToLastNotifiedSizeMap[id];
     if (lastNotifiedSize !== size) {
@@ -174,115 +128,6 @@ export function callPanelCallbacks(
   });
 }
 
-export function calculateDefaultLayout({
-  groupId,
-  panels,
-  units,
-}: {
-  groupId: string;
-  panels: Map<string, PanelData>;
-  units: Units;
-}): number[] {
-  const groupSizePixels =
-    units === "pixels" ? getAvailableGroupSizePixels(groupId) : NaN;
-  const panelsArray = panelsMapToSortedArray(panels);
-  const sizes = Array<number>(panelsArray.length);
-
-  let numPanelsWithSizes = 0;
-  let remainingSize = 100;
-
-  // Assigning default sizes requires a couple of passes:
-  // First, all panels with defaultSize should be set as-is
-  for (let index = 0; index < panelsArray.length; index++) {
-    const panel = panelsArray[index];
-    const { defaultSize } = panel.current;
-
-    if (defaultSize != null) {
-      numPanelsWithSizes++;
-
-      sizes[index] =
-        units === "pixels"
-          ? (defaultSize / groupSizePixels) * 100
-          : defaultSize;
-
-      remainingSize -= sizes[index];
-    }
-  }
-
-  // Remaining total size should be distributed evenly between panels
-  // This may require two passes, depending on min/max constraints
-  for (let index = 0; index < panelsArray.length; index++) {
-    const panel = panelsArray[index];
-    let { defaultSize, id, maxSize, minSize } = panel.current;
-    if (defaultSize != null) {
-      continue;
-    }
-
-    if (units === "pixels") {
-      minSize = (minSize / groupSizePixels) * 100;
-      if (maxSize != null) {
-        maxSize = (maxSize / groupSizePixels) * 100;
-      }
-    }
-
-    const remainingPanels = panelsArray.length - numPanelsWithSizes;
-    const size = Math.min(
-      maxSize != null ? maxSize : 100,
-      Math.max(minSize, remainingSize / remainingPanels)
-    );
-
-    sizes[index] = size;
-    numPanelsWithSizes++;
-    remainingSize -= size;
-  }
-
-  // If there is additional, left over space, assign it to any panel(s) that permits it
-  // (It's not worth taking multiple additional passes to evenly distribute)
-  if (remainingSize !== 0) {
-    for (let index = 0; index < panelsArray.length; index++) {
-      const panel = panelsArray[index];
-      let { maxSize, minSize } = panel.current;
-
-      if (units === "pixels") {
-        minSize = (minSize / groupSizePixels) * 100;
-        if (maxSize != null) {
-          maxSize = (maxSize / groupSizePixels) * 100;
-        }
-      }
-
-      const size = Math.min(
-        maxSize != null ? maxSize : 100,
-        Math.max(minSize, sizes[index] + remainingSize)
-      );
-
-      if (size !== sizes[index]) {
-        remainingSize -= size - sizes[index];
-        sizes[index] = size;
-
-        // Fuzzy comparison to account for imprecise floating point math
-        if (Math.abs(remainingSize).toFixed(3) === "0.000") {
-          break;
-        }
-      }
-    }
-  }
-
-  // Finally, if there is still left-over size, log an error
-  if (Math.abs(remainingSize).toFixed(3) !== "0.000") {
-    if (isDevelopment) {
-      console.error(
-        `Invalid panel group configuration; default panel sizes should total 100% but was ${(
-          100 - remainingSize
-        ).toFixed(
-          1
-        )}%. This can cause the cursor to become misaligned while dragging.`
-      );
-    }
-  }
-
-  return sizes;
-}
-
 export function getBeforeAndAfterIds(
   id: string,
   panelsArray: PanelData[]
@@ -303,31 +148,39 @@ export function getBeforeAndAfterIds(
   return [idBefore, idAfter];
 }
 
-export function getAvailableGroupSizePixels(groupId: string): number {
-  const panelGroupElement = getPanelGroup(groupId);
+// Groups rendered within a Shadow DOM or another window (e.g. a popout or an iframe)
+// can be found by specifying the shadow root or document they were rendered into.
+export function getAvailableGroupSizePixels(
+  groupId: string,
+  scope: ParentNode = document
+): number {
+  const panelGroupElement = getPanelGroup(groupId, scope);
   if (panelGroupElement == null) {
     return NaN;
   }
 
-  const direction = panelGroupElement.getAttribute(
-    "data-panel-group-direction"
+  return getGroupAvailableSizePixels(panelGroupElement);
+}
+
+// Space available to panels, i.e. the group's content size less the size of its resize handles.
+export function getGroupAvailableSizePixels(
+  panelGroupElement: HTMLElement
+): number {
+  const { direction } = getPhysicalDirection(
+    panelGroupElement,
+    panelGroupElement.getAttribute("data-panel-group-direction") as Direction
+  );
+  const resizeHandles = getResizeHandlesForGroup(panelGroupElement);
+
+  return (
+    getGroupContentSizePixels(panelGroupElement) -
+    resizeHandles.reduce((accumulated, handle) => {
+      return (
+        accumulated +
+        (direction === "horizontal" ? handle.offsetWidth : handle.offsetHeight)
+      );
+    }, 0)
   );
-  const resizeHandles = getResizeHandlesForGroup(groupId);
-  if (direction === "horizontal") {
-    return (
-      panelGroupElement.offsetWidth -
-      resizeHandles.reduce((accumulated, handle) => {
-        return accumulated + handle.offsetWidth;
-      }, 0)
-    );
-  } else {
-    return (
-      panelGroupElement.offsetHeight -
-      resizeHandles.reduce((accumulated, handle) => {
-        return accumulated + handle.offsetHeight;
-      }, 0)
-    );
-  }
 }
 
 // This method returns a number between 1 and 100 representing
@@ -337,13 +190,22 @@ export function getFlexGrow(
   id: string,
   sizes: number[]
 ): string {
-  if (panels.size === 1) {
-    return "100";
-  }
-
   const panelsArray = panelsMapToSortedArray(panels);
 
   const index = panelsArray.findIndex((panel) => panel.current.id === id);
+
+  return getFlexGrowAtIndex(panelsArray.length, sizes, index);
+}
+
+function getFlexGrowAtIndex(
+  panelCount: number,
+  sizes: number[],
+  index: number
+): string {
+  if (panelCount === 1) {
+    return "100";
+  }
+
   const size = sizes[index];
   if (size == null) {
     return "0";
@@ -352,60 +214,132 @@ export function getFlexGrow(
   return size.toPrecision(PRECISION);
 }
 
-export function getPanel(id: string): HTMLDivElement | null {
-  const element = document.querySelector(`[data-panel-id="${id}"]`);
+// Space shared by the group's panels and resize handles,
+// i.e. the size of its content box (excluding padding and borders) less any gaps between them.
+export function getGroupContentSizePixels(
+  panelGroupElement: HTMLElement
+): number {
+  const flexDirection = panelGroupElement.getAttribute(
+    "data-panel-group-direction"
+  ) as Direction;
+  const { direction } = getPhysicalDirection(panelGroupElement, flexDirection);
+
+  const style =
+    panelGroupElement.ownerDocument.defaultView!.getComputedStyle(
+      panelGroupElement
+    );
+
+  // Gaps between the items in a row are always column gaps (regardless of writing mode);
+  // the default gap ("normal") is zero for flex containers.
+  const gap =
+    parseFloat(
+      flexDirection === "horizontal" ? style.columnGap : style.rowGap
+    ) || 0;
+  const gapsSize = gap * Math.max(0, panelGroupElement.children.length - 1);
+
+  if (direction === "horizontal") {
+    return (
+      panelGroupElement.clientWidth -
+      parseFloat(style.paddingLeft) -
+      parseFloat(style.paddingRight) -
+      gapsSize
+    );
+  } else {
+    return (
+      panelGroupElement.clientHeight -
+      parseFloat(style.paddingTop) -
+      parseFloat(style.paddingBottom) -
+      gapsSize
+    );
+  }
+}
+
+// Pixel sizes are only needed to normalize pixel based constraints;
+// avoid forcing a (potentially expensive) layout when no panel uses them.
+export function getGroupSizePixels(
+  panelGroupElement: HTMLElement,
+  units: Units,
+  panelsArray: PanelData[]
+): number {
+  return usesPixelConstraints(units, panelsArray)
+    ? getGroupAvailableSizePixels(panelGroupElement)
+    : NaN;
+}
+
+export function getPanel(id: string, scope: ParentNode): HTMLDivElement | null {
+  const element = scope.querySelector(`[data-panel-id="${id}"]`);
   if (element) {
     return element as HTMLDivElement;
   }
   return null;
 }
 
-export function getPanelGroup(id: string): HTMLDivElement | null {
-  const element = document.querySelector(`[data-panel-group-id="${id}"]`);
+export function getPanelGroup(
+  id: string,
+  scope: ParentNode
+): HTMLElement | null {
+  const element = scope.querySelector(`[data-panel-group-id="${id}"]`);
   if (element) {
-    return element as HTMLDivElement;
+    return element as HTMLElement;
   }
   return null;
 }
 
-export function getResizeHandle(id: string): HTMLDivElement | null {
-  const element = document.querySelector(
-    `[data-panel-resize-handle-id="${id}"]`
-  );
+export function getPanelConstraints(
+  panelsArray: PanelData[]
+): PanelConstraints[] {
+  return panelsArray.map((panel) => panel.current);
+}
+
+export function getResizeHandle(
+  id: string,
+  scope: ParentNode
+): HTMLDivElement | null {
+  const element = scope.querySelector(`[data-panel-resize-handle-id="${id}"]`);
   if (element) {
     return element as HTMLDivElement;
   }
   return null;
 }
 
-export function getResizeHandleIndex(id: string): number | null {
-  const handles = getResizeHandles();
+export function getResizeHandleIndex(
+  id: string,
+  scope: ParentNode
+): number | null {
+  const handles = getResizeHandles(scope);
   const index = handles.findIndex(
     (handle) => handle.getAttribute("data-panel-resize-handle-id") === id
   );
   return index ?? null;
 }
 
-export function getResizeHandles(): HTMLDivElement[] {
-  return Array.from(document.querySelectorAll(`[data-panel-resize-handle-id]`));
+export function getResizeHandles(scope: ParentNode): HTMLDivElement[] {
+  return Array.from(scope.querySelectorAll(`[data-panel-resize-handle-id]`));
 }
 
-export function getResizeHandlesForGroup(groupId: string): HTMLDivElement[] {
+// Handles are always rendered within their group,
+// so there is no need to search beyond the group element.
+export function getResizeHandlesForGroup(
+  panelGroupElement: HTMLElement
+): HTMLDivElement[] {
+  const groupId = panelGroupElement.getAttribute("data-panel-group-id");
+
   return Array.from(
-    document.querySelectorAll(
+    panelGroupElement.querySelectorAll(
       `[data-panel-resize-handle-id][data-panel-group-id="${groupId}"]`
     )
   );
 }
 
 export function getResizeHandlePanelIds(
-  groupId: string,
+  panelGroupElement: HTMLElement,
   handleId: string,
   panelsArray: PanelData[]
 ): [idBefore: string | null, idAfter: string | null] {
-  const handle = getResizeHandle(handleId);
-  const handles = getResizeHandlesForGroup(groupId);
-  const index = handle ? handles.indexOf(handle) : -1;
+  const handles = getResizeHandlesForGroup(panelGroupElement);
+  const index = handles.findIndex(
+    (handle) => handle.getAttribute("data-panel-resize-handle-id") === handleId
+  );
 
   const idBefore: string | null = panelsArray[index]?.current?.id ?? null;
   const idAfter: string | null = panelsArray[index + 1]?.current?.id ?? null;
@@ -431,87 +365,138 @@ export function panelsMapToSortedArray(
   });
 }
 
-export function safeResizePanel(
-  units: Units,
-  groupSizePixels: number,
-  panel: PanelData,
-  prevSize: number,
-  nextSize: number,
-  event: ResizeEvent | null = null
-): number {
-  let { collapsedSize, collapsible, maxSize, minSize } = panel.current;
+// Updates Panel elements directly (without re-rendering them) to reflect the specified layout.
+// Resize handles' aria-valuenow attributes are kept in sync as well (see useWindowSplitterPanelGroupBehavior).
+export function setPanelElementSizes(
+  panelGroupElement: HTMLElement,
+  panels: Map<string, PanelData>,
+  sizes: number[]
+) {
+  // This runs on every frame of a drag, so panels are only sorted once (rather than by getFlexGrow for each panel)
+  const panelsArray = panelsMapToSortedArray(panels);
+  const flexGrows = panelsArray.map((_, index) =>
+    getFlexGrowAtIndex(panelsArray.length, sizes, index)
+  );
+
+  panelsArray.forEach((panel, index) => {
+    const element = getPanel(panel.current.id, panelGroupElement);
+    if (element !== null) {
+      const flexGrow = flexGrows[index];
 
-  if (units === "pixels") {
-    collapsedSize = (collapsedSize / groupSizePixels) * 100;
-    if (maxSize != null) {
-      maxSize = (maxSize / groupSizePixels) * 100;
+      element.style.flexGrow = flexGrow;
+      element.setAttribute("data-panel-size", parseFloat(flexGrow).toFixed(1));
     }
-    minSize = (minSize / groupSizePixels) * 100;
-  }
+  });
 
-  if (collapsible) {
-    if (prevSize > collapsedSize) {
-      // Mimic VS COde behavior; collapse a panel if it's smaller than half of its min-size
-      if (nextSize <= minSize / 2 + collapsedSize) {
-        return collapsedSize;
-      }
-    } else {
-      const isKeyboardEvent = event?.type?.startsWith("key");
-      if (!isKeyboardEvent) {
-        // Keyboard events should expand a collapsed panel to the min size,
-        // but mouse events should wait until the panel has reached its min size
-        // to avoid a visual flickering when dragging between collapsed and min size.
-        if (nextSize < minSize) {
-          return collapsedSize;
-        }
-      }
+  getResizeHandlesForGroup(panelGroupElement).forEach((handle, index) => {
+    const flexGrow = flexGrows[index];
+    if (flexGrow != null && handle.hasAttribute("aria-valuenow")) {
+      handle.setAttribute(
+        "aria-valuenow",
+        "" + Math.round(parseFloat(flexGrow))
+      );
     }
-  }
+  });
+}
 
-  return Math.min(maxSize != null ? maxSize : 100, Math.max(minSize, nextSize));
+export function usesFixedResizeBehavior(panelsArray: PanelData[]): boolean {
+  return panelsArray.some((panel) => panel.current.resizeBehavior === "fixed");
+}
+
+export function usesPixelConstraints(
+  units: Units,
+  panelsArray: PanelData[]
+): boolean {
+  return (
+    units === "pixels" ||
+    panelsArray.some((panel) => hasPixelConstraints(panel.current, units))
+  );
 }
 
 export function validatePanelProps(units: Units, panelData: PanelData) {
-  const { collapsible, defaultSize, maxSize, minSize } = panelData.current;
+  const { collapsible, defaultSize, maxSize, minSize, snapPoints } =
+    panelData.current;
 
   // Basic props validation
-  if (minSize < 0 || (units === "percentages" && minSize > 100)) {
+  if (!isValidPanelSize(minSize, units)) {
     if (isDevelopment) {
-      console.error(`Invalid Panel minSize provided, ${minSize}`);
+      console.error(
+        `Invalid Panel minSize provided, ${formatPanelSize(minSize)}`
+      );
     }
 
     panelData.current.minSize = 0;
   }
 
   if (maxSize != null) {
-    if (maxSize < 0 || (units === "percentages" && maxSize > 100)) {
+    if (!isValidPanelSize(maxSize, units)) {
       if (isDevelopment) {
-        console.error(`Invalid Panel maxSize provided, ${maxSize}`);
+        console.error(
+          `Invalid Panel maxSize provided, ${formatPanelSize(maxSize)}`
+        );
       }
 
       panelData.current.maxSize = null;
     }
   }
 
+  if (!snapPoints.every((snapPoint) => isValidPanelSize(snapPoint, units))) {
+    if (isDevelopment) {
+      console.error(
+        `Invalid Panel snapPoints provided, ${snapPoints
+          .map(formatPanelSize)
+          .join(", ")}`
+      );
+    }
+
+    panelData.current.snapPoints = snapPoints.filter((snapPoint) =>
+      isValidPanelSize(snapPoint, units)
+    );
+  }
+
   if (defaultSize !== null) {
-    if (defaultSize < 0 || (units === "percentages" && defaultSize > 100)) {
+    // Sizes specified in different units can't be compared without measuring the group;
+    // those constraints will be enforced once the layout is calculated.
+    const parsedDefaultSize = parsePanelSize(defaultSize, units);
+    const parsedMaxSize =
+      maxSize != null ? parsePanelSize(maxSize, units) : null;
+    const parsedMinSize = parsePanelSize(minSize, units);
+
+    if (!isValidPanelSize(defaultSize, units)) {
       if (isDevelopment) {
-        console.error(`Invalid Panel defaultSize provided, ${defaultSize}`);
+        console.error(
+          `Invalid Panel defaultSize provided, ${formatPanelSize(defaultSize)}`
+        );
       }
 
       panelData.current.defaultSize = null;
-    } else if (defaultSize < minSize && !collapsible) {
+    } else if (
+      parsedDefaultSize.unit === parsedMinSize.unit &&
+      parsedDefaultSize.value < parsedMinSize.value &&
+      !collapsible
+    ) {
       if (isDevelopment) {
         console.error(
-          `Panel minSize (${minSize}) cannot be greater than defaultSize (${defaultSize})`
+          `Panel minSize (${formatPanelSize(
+            minSize
+          )}) cannot be greater than defaultSize (${formatPanelSize(
+            defaultSize
+          )})`
         );
       }
 
       panelData.current.defaultSize = minSize;
-    } else if (maxSize != null && defaultSize > maxSize) {
+    } else if (
+      maxSize != null &&
+      parsedMaxSize != null &&
+      parsedDefaultSize.unit === parsedMaxSize.unit &&
+      parsedDefaultSize.value > parsedMaxSize.value
+    ) {
       if (isDevelopment) {
         console.error(
-          `Panel maxSize (${maxSize}) cannot be less than defaultSize (${defaultSize})`
+          `Panel maxSize (${formatPanelSize(
+            maxSize
+          )}) cannot be less than defaultSize (${formatPanelSize(defaultSize)})`
         );
       }
 
@@ -520,95 +505,8 @@ export function validatePanelProps(units: Units, panelData: PanelData) {
   }
 }
 
-export function validatePanelGroupLayout({
-  groupId,
-  panels,
-  nextSizes,
-  prevSizes,
-  units,
-}: {
-  groupId: string;
-  panels: Map<string, PanelData>;
-  nextSizes: number[];
-  prevSizes: number[];
-  units: Units;
-}): number[] {
-  // Clone because this method modifies
-  nextSizes = [...nextSizes];
-
-  const panelsArray = panelsMapToSortedArray(panels);
-
-  const groupSizePixels =
-    units === "pixels" ? getAvailableGroupSizePixels(groupId) : NaN;
-
-  let remainingSize = 0;
-
-  // First, check all of the proposed sizes against the min/max constraints
-  for (let index = 0; index < panelsArray.length; index++) {
-    const panel = panelsArray[index];
-    const prevSize = prevSizes[index];
-    const nextSize = nextSizes[index];
-    const safeNextSize = safeResizePanel(
-      units,
-      groupSizePixels,
-      panel,
-      prevSize,
-      nextSize
-    );
-    if (nextSize != safeNextSize) {
-      remainingSize += nextSize - safeNextSize;
-      nextSizes[index] = safeNextSize;
-
-      if (isDevelopment) {
-        console.error(
-          `Invalid size (${nextSize}) specified for Panel "${panel.current.id}" given the panel's min/max size constraints`
-        );
-      }
-    }
-  }
-
-  // If there is additional, left over space, assign it to any panel(s) that permits it
-  // (It's not worth taking multiple additional passes to evenly distribute)
-  if (remainingSize.toFixed(3) !== "0.000") {
-    for (let index = 0; index < panelsArray.length; index++) {
-      const panel = panelsArray[index];
-
-      let { maxSize, minSize } = panel.current;
-
-      if (units === "pixels") {
-        minSize = (minSize / groupSizePixels) * 100;
-        if (maxSize != null) {
-          maxSize = (maxSize / groupSizePixels) * 100;
-        }
-      }
-
-      const size = Math.min(
-        maxSize != null ? maxSize : 100,
-        Math.max(minSize, nextSizes[index] + remainingSize)
-      );
-
-      if (size !== nextSizes[index]) {
-        remainingSize -= size - nextSizes[index];
-        nextSizes[index] = size;
+function isValidPanelSize(size: PanelSize, units: Units): boolean {
+  const { unit, value } = parsePanelSize(size, units);
 
-        // Fuzzy comparison to account for imprecise floating point math
-        if (Math.abs(remainingSize).toFixed(3) === "0.000") {
-          break;
-        }
-      }
-    }
-  }
-
-  // If we still have remainder, the requested layout wasn't valid and we should warn about it
-  if (remainingSize.toFixed(3) !== "0.000") {
-    if (isDevelopment) {
-      console.error(
-        `"Invalid panel group configuration; default panel sizes should total 100% but was ${
-          100 - remainingSize
-        }%`
-      );
-    }
-  }
-
-  return nextSizes;
+  return value >= 0 && (unit !== "%" || value <= 100);
 }
@@ -0,0 +1,20 @@
+// Calls the callback once the browser is idle (or after a short timeout, in browsers without requestIdleCallback).
+// Callbacks are scheduled on the window the group is rendered in (which may not be the global window, e.g. for popouts).
+// Returns a function that can be used to cancel the callback.
+export default function scheduleIdleCallback(
+  callback: () => void,
+  targetWindow: Window,
+  timeoutMs: number = 100
+): () => void {
+  if (typeof targetWindow.requestIdleCallback === "function") {
+    const handle = targetWindow.requestIdleCallback(callback, {
+      timeout: timeoutMs,
+    });
+
+    return () => targetWindow.cancelIdleCallback(handle);
+  } else {
+    const timeoutId = targetWindow.setTimeout(callback, timeoutMs);
+
+    return () => targetWindow.clearTimeout(timeoutId);
+  }
+}
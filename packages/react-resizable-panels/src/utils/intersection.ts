@@ -0,0 +1,110 @@
+import { INTERSECTING_HANDLE_MARGIN } from "../constants";
+import {
+  Direction,
+  PanelResizeHandleHitAreaMargins,
+  ResizeHandler,
+} from "../types";
+import { getPhysicalDirection } from "./coordinates";
+import { getResizeHandles } from "./group";
+
+export type DragHandlers = {
+  hitAreaMargin: number;
+  resizeHandler: ResizeHandler;
+  startDragging: (event: PointerEvent) => void;
+  stopDragging: () => void;
+};
+
+// Enabled resize handles (across all groups) by id.
+// This allows a drag that starts where two handles meet (e.g. the junction of nested groups)
+// to be routed to both of them.
+const dragHandlersMap = new Map<string, DragHandlers>();
+
+export function getHitAreaMargin(
+  hitAreaMargins: PanelResizeHandleHitAreaMargins | null,
+  targetWindow: Window
+): number {
+  if (hitAreaMargins == null) {
+    return 0;
+  }
+
+  return isCoarsePointer(targetWindow)
+    ? hitAreaMargins.coarse
+    : hitAreaMargins.fine;
+}
+
+// Returns the handlers for any other resize handles (of the opposite direction) under the pointer.
+export function getIntersectingDragHandlers(
+  handle: Element,
+  event: PointerEvent
+): DragHandlers[] {
+  let direction: Direction | null = null;
+
+  const intersectingDragHandlers: DragHandlers[] = [];
+
+  getResizeHandles(handle.getRootNode() as ParentNode).forEach(
+    (otherHandle) => {
+      if (otherHandle === handle) {
+        return;
+      }
+
+      const otherHandleId = otherHandle.getAttribute(
+        "data-panel-resize-handle-id"
+      )!;
+      const dragHandlers = dragHandlersMap.get(otherHandleId);
+      if (dragHandlers == null) {
+        return;
+      }
+
+      const margin = Math.max(
+        INTERSECTING_HANDLE_MARGIN,
+        dragHandlers.hitAreaMargin
+      );
+
+      const { bottom, left, right, top } = otherHandle.getBoundingClientRect();
+      if (
+        event.clientX >= left - margin &&
+        event.clientX <= right + margin &&
+        event.clientY >= top - margin &&
+        event.clientY <= bottom + margin
+      ) {
+        // Handles of nested groups with different writing modes may be on the same axis (despite different directions)
+        if (direction === null) {
+          direction = getHandleDirection(handle);
+        }
+
+        if (getHandleDirection(otherHandle) !== direction) {
+          intersectingDragHandlers.push(dragHandlers);
+        }
+      }
+    }
+  );
+
+  return intersectingDragHandlers;
+}
+
+export function registerDragHandlers(
+  handleId: string,
+  dragHandlers: DragHandlers
+) {
+  dragHandlersMap.set(handleId, dragHandlers);
+}
+
+export function unregisterDragHandlers(handleId: string) {
+  dragHandlersMap.delete(handleId);
+}
+
+function getHandleDirection(handle: Element): Direction {
+  const { direction } = getPhysicalDirection(
+    handle,
+    handle.getAttribute("data-panel-group-direction") as Direction
+  );
+
+  return direction;
+}
+
+function isCoarsePointer(targetWindow: Window): boolean {
+  return (
+    typeof targetWindow.matchMedia === "function" &&
+    targetWindow.matchMedia("(pointer: coarse)").matches
+  );
+}
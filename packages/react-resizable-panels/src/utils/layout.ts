@@ -0,0 +1,876 @@
+import { isDevelopment } from "#is-development";
+import { DEFAULT_SNAP_THRESHOLD, PRECISION } from "../constants";
+import {
+  NormalizedPanelConstraints,
+  PanelConstraints,
+  PanelGroupCascadeStrategy,
+  PanelSize,
+  PanelSizeUnit,
+  ResizeTrigger,
+  Units,
+} from "../types";
+
+// The methods in this module make up the layout engine used by PanelGroup.
+// They operate on plain panel constraints and (for pixel based constraints) the measured size of the group;
+// they should never access the DOM or React so that layouts can also be computed on the server or in tests.
+//
+// Layouts are arrays of panel sizes, expressed as percentages (0-100) of the group, in panel order.
+// The group size (groupSizePixels) may be NaN if none of the constraints are specified in pixels.
+
+export function adjustByDelta({
+  cascadeStrategy = "nearest",
+  delta,
+  groupSizePixels,
+  layout: prevLayout,
+  panelConstraints,
+  pivotIndices,
+  trigger,
+  units,
+}: {
+  cascadeStrategy?: PanelGroupCascadeStrategy;
+  delta: number;
+  groupSizePixels: number;
+  layout: number[];
+  panelConstraints: PanelConstraints[];
+  pivotIndices: [indexBefore: number, indexAfter: number];
+  trigger: ResizeTrigger;
+  units: Units;
+}): number[] {
+  const [indexBefore, indexAfter] = pivotIndices;
+
+  // Snap points adjust the requested delta before any constraints are applied,
+  // so that the snapped layout still honors min/max sizes and collapsing.
+  // (Home and End keys resize by the full size of the group and should not stop at snap points.)
+  if (trigger === "pointer") {
+    delta = snapDelta({
+      delta,
+      groupSizePixels,
+      layout: prevLayout,
+      panelConstraints,
+      pivotIndices,
+      units,
+    });
+  } else if (trigger === "keyboard" && Math.abs(delta) < 100) {
+    delta = stepDeltaToSnapPoint({
+      delta,
+      groupSizePixels,
+      layout: prevLayout,
+      panelConstraints,
+      pivotIndices,
+      units,
+    });
+  }
+
+  const nextLayout = prevLayout.concat();
+
+  let deltaApplied = 0;
+
+  // A resizing panel affects the panels before or after it.
+  //
+  // A negative delta means the panel immediately after the resizer should grow/expand by decreasing its offset.
+  // Other panels may also need to shrink/contract (and shift) to make room, depending on the min weights.
+  //
+  // A positive delta means the panel immediately before the resizer should "expand".
+  // This is accomplished by shrinking/contracting (and shifting) one or more of the panels after the resizer.
+
+  // Max-bounds check the panel being expanded first.
+  {
+    const pivotIndex = delta < 0 ? indexAfter : indexBefore;
+    const prevSize = prevLayout[pivotIndex];
+
+    const nextSize = safeResizePanel({
+      groupSizePixels,
+      panelConstraints: panelConstraints[pivotIndex],
+      prevSize,
+      size: prevSize + Math.abs(delta),
+      trigger,
+      units,
+    });
+    if (prevSize === nextSize) {
+      // If there's no room for the pivot panel to grow, we can ignore this drag update.
+      return prevLayout;
+    } else {
+      delta = delta < 0 ? prevSize - nextSize : nextSize - prevSize;
+    }
+  }
+
+  if (cascadeStrategy === "proportional" || cascadeStrategy === "weighted") {
+    const indices: number[] = [];
+    if (delta < 0) {
+      for (let index = indexBefore; index >= 0; index--) {
+        indices.push(index);
+      }
+    } else {
+      for (let index = indexAfter; index < prevLayout.length; index++) {
+        indices.push(index);
+      }
+    }
+
+    deltaApplied = distributeDelta({
+      cascadeStrategy,
+      delta: Math.abs(delta),
+      groupSizePixels,
+      indices,
+      layout: nextLayout,
+      panelConstraints,
+      prevLayout,
+      trigger,
+      units,
+    });
+  } else {
+    let index = delta < 0 ? indexBefore : indexAfter;
+    while (true) {
+      const prevSize = prevLayout[index];
+
+      const deltaRemaining = Math.abs(delta) - Math.abs(deltaApplied);
+
+      const nextSize = safeResizePanel({
+        groupSizePixels,
+        panelConstraints: panelConstraints[index],
+        prevSize,
+        size: prevSize - deltaRemaining,
+        trigger,
+        units,
+      });
+      if (prevSize !== nextSize) {
+        deltaApplied += prevSize - nextSize;
+
+        nextLayout[index] = nextSize;
+
+        if (
+          deltaApplied
+            .toPrecision(PRECISION)
+            .localeCompare(Math.abs(delta).toPrecision(PRECISION), undefined, {
+              numeric: true,
+            }) >= 0
+        ) {
+          break;
+        }
+      }
+
+      if (cascadeStrategy === "neighbors") {
+        break;
+      }
+
+      if (delta < 0) {
+        if (--index < 0) {
+          break;
+        }
+      } else {
+        if (++index >= prevLayout.length) {
+          break;
+        }
+      }
+    }
+  }
+
+  // If we were unable to resize any of the panels panels, return the previous state.
+  // This will essentially bailout and ignore e.g. drags past a panel's boundaries
+  if (deltaApplied === 0) {
+    return prevLayout;
+  }
+
+  // Adjust the pivot panel before, but only by the amount that surrounding panels were able to shrink/contract.
+  const pivotIndex = delta < 0 ? indexAfter : indexBefore;
+  nextLayout[pivotIndex] = prevLayout[pivotIndex] + deltaApplied;
+
+  return nextLayout;
+}
+
+// Recomputes a layout after the group has been resized (from prevGroupSizePixels to groupSizePixels).
+// Panels with a "fixed" resize behavior keep their pixel size;
+// the space they give up (or take) is distributed between "fill" panels,
+// or between the remaining panels if there are no "fill" panels.
+// If the group becomes too small for that, fixed panels shrink proportionally so that flexible panels keep their min sizes.
+// The resulting layout should be validated against the panel constraints before being applied.
+export function adjustLayoutForGroupResize({
+  groupSizePixels,
+  layout: prevLayout,
+  panelConstraints: panelConstraintsArray,
+  prevGroupSizePixels,
+  units,
+}: {
+  groupSizePixels: number;
+  layout: number[];
+  panelConstraints: PanelConstraints[];
+  prevGroupSizePixels: number;
+  units: Units;
+}): number[] {
+  if (
+    !(groupSizePixels > 0) ||
+    !(prevGroupSizePixels > 0) ||
+    groupSizePixels === prevGroupSizePixels
+  ) {
+    return prevLayout;
+  }
+
+  const fillIndices: number[] = [];
+  const fixedIndices: number[] = [];
+  const proportionalIndices: number[] = [];
+
+  panelConstraintsArray.forEach(({ resizeBehavior }, index) => {
+    switch (resizeBehavior) {
+      case "fill":
+        fillIndices.push(index);
+        break;
+      case "fixed":
+        fixedIndices.push(index);
+        break;
+      default:
+        proportionalIndices.push(index);
+        break;
+    }
+  });
+
+  const flexibleIndices =
+    fillIndices.length > 0 ? fillIndices : proportionalIndices;
+  if (fixedIndices.length === 0 || flexibleIndices.length === 0) {
+    return prevLayout;
+  }
+
+  const minSizes = panelConstraintsArray.map(
+    (panelConstraints) =>
+      normalizePanelConstraints(panelConstraints, units, groupSizePixels)
+        .minSize
+  );
+
+  const nextLayout = [...prevLayout];
+
+  let fixedSize = 0;
+  let otherSize = 0;
+  let minFlexibleSize = 0;
+
+  for (let index = 0; index < prevLayout.length; index++) {
+    if (fixedIndices.includes(index)) {
+      nextLayout[index] =
+        (prevLayout[index] * prevGroupSizePixels) / groupSizePixels;
+
+      fixedSize += nextLayout[index];
+    } else if (flexibleIndices.includes(index)) {
+      minFlexibleSize += minSizes[index];
+    } else {
+      otherSize += nextLayout[index];
+    }
+  }
+
+  // Fixed panels can only keep their pixel sizes as long as there is room left for the flexible panels
+  const maxFixedSize = Math.max(0, 100 - otherSize - minFlexibleSize);
+  if (fixedSize > maxFixedSize) {
+    fixedIndices.forEach((index) => {
+      nextLayout[index] = (nextLayout[index] / fixedSize) * maxFixedSize;
+    });
+
+    fixedSize = maxFixedSize;
+  }
+
+  // Flexible panels share the remaining space in proportion to their previous sizes;
+  // panels whose share would be smaller than their min size get their min size instead.
+  let indices = flexibleIndices;
+  let remainingSize = Math.max(0, 100 - otherSize - fixedSize);
+
+  while (indices.length > 0) {
+    const prevFlexibleSize = indices.reduce(
+      (total, index) => total + prevLayout[index],
+      0
+    );
+    const shares = indices.map((index) =>
+      prevFlexibleSize > 0
+        ? (prevLayout[index] / prevFlexibleSize) * remainingSize
+        : remainingSize / indices.length
+    );
+
+    const nextIndices = indices.filter(
+      (index, shareIndex) => shares[shareIndex] >= minSizes[index]
+    );
+    if (nextIndices.length === indices.length) {
+      indices.forEach((index, shareIndex) => {
+        nextLayout[index] = shares[shareIndex];
+      });
+      break;
+    }
+
+    indices.forEach((index) => {
+      if (!nextIndices.includes(index)) {
+        nextLayout[index] = minSizes[index];
+        remainingSize -= minSizes[index];
+      }
+    });
+
+    indices = nextIndices;
+  }
+
+  return nextLayout;
+}
+
+export function calculateDefaultLayout({
+  groupSizePixels,
+  panelConstraints: panelConstraintsArray,
+  units,
+}: {
+  groupSizePixels: number;
+  panelConstraints: PanelConstraints[];
+  units: Units;
+}): number[] {
+  const layout = Array<number>(panelConstraintsArray.length);
+
+  const normalizedConstraintsArray = panelConstraintsArray.map(
+    (panelConstraints) =>
+      normalizePanelConstraints(panelConstraints, units, groupSizePixels)
+  );
+
+  let numPanelsWithSizes = 0;
+  let remainingSize = 100;
+
+  // Assigning default sizes requires a couple of passes:
+  // First, all panels with defaultSize should be set as-is
+  for (let index = 0; index < normalizedConstraintsArray.length; index++) {
+    const { defaultSize } = normalizedConstraintsArray[index];
+
+    if (defaultSize != null) {
+      numPanelsWithSizes++;
+
+      layout[index] = defaultSize;
+
+      remainingSize -= defaultSize;
+    }
+  }
+
+  // Remaining total size should be distributed evenly between panels
+  // This may require two passes, depending on min/max constraints
+  for (let index = 0; index < normalizedConstraintsArray.length; index++) {
+    const { defaultSize, maxSize, minSize } = normalizedConstraintsArray[index];
+    if (defaultSize != null) {
+      continue;
+    }
+
+    const remainingPanels =
+      normalizedConstraintsArray.length - numPanelsWithSizes;
+    const size = Math.min(
+      maxSize != null ? maxSize : 100,
+      Math.max(minSize, remainingSize / remainingPanels)
+    );
+
+    layout[index] = size;
+    numPanelsWithSizes++;
+    remainingSize -= size;
+  }
+
+  // If there is additional, left over space, assign it to any panel(s) that permits it
+  // (It's not worth taking multiple additional passes to evenly distribute)
+  if (remainingSize !== 0) {
+    for (let index = 0; index < normalizedConstraintsArray.length; index++) {
+      const { maxSize, minSize } = normalizedConstraintsArray[index];
+
+      const size = Math.min(
+        maxSize != null ? maxSize : 100,
+        Math.max(minSize, layout[index] + remainingSize)
+      );
+
+      if (size !== layout[index]) {
+        remainingSize -= size - layout[index];
+        layout[index] = size;
+
+        // Fuzzy comparison to account for imprecise floating point math
+        if (Math.abs(remainingSize).toFixed(3) === "0.000") {
+          break;
+        }
+      }
+    }
+  }
+
+  // Finally, if there is still left-over size, log an error
+  if (Math.abs(remainingSize).toFixed(3) !== "0.000") {
+    if (isDevelopment) {
+      console.error(
+        `Invalid panel group configuration; default panel sizes should total 100% but was ${(
+          100 - remainingSize
+        ).toFixed(
+          1
+        )}%. This can cause the cursor to become misaligned while dragging.`
+      );
+    }
+  }
+
+  return layout;
+}
+
+export function convertPercentageToPixels(
+  percentage: number,
+  groupSizePixels: number
+): number {
+  return (percentage / 100) * groupSizePixels;
+}
+
+export function convertPixelsToPercentage(
+  pixels: number,
+  groupSizePixels: number
+): number {
+  return (pixels / groupSizePixels) * 100;
+}
+
+export function convertPanelSizeToPercentage(
+  size: PanelSize,
+  units: Units,
+  groupSizePixels: number
+): number {
+  const { unit, value } = parsePanelSize(size, units);
+
+  return unit === "px"
+    ? convertPixelsToPercentage(value, groupSizePixels)
+    : value;
+}
+
+export function formatPanelSize(size: PanelSize): string {
+  if (typeof size === "object") {
+    return `${size.value}${size.unit}`;
+  } else {
+    return `${size}`;
+  }
+}
+
+// Returns true if any of the panel's constraints are specified in pixels;
+// measuring the size of the group is required to normalize them.
+export function hasPixelConstraints(
+  panelConstraints: PanelConstraints,
+  units: Units
+): boolean {
+  const {
+    collapsedSize,
+    defaultSize,
+    maxSize,
+    minSize,
+    snapPoints = [],
+    snapThreshold,
+  } = panelConstraints;
+
+  return [
+    collapsedSize,
+    defaultSize,
+    maxSize,
+    minSize,
+    snapThreshold,
+    ...snapPoints,
+  ].some((size) => size != null && parsePanelSize(size, units).unit === "px");
+}
+
+// Converts each of the panel's constraints to a percentage of the group's size.
+export function normalizePanelConstraints(
+  panelConstraints: PanelConstraints,
+  units: Units,
+  groupSizePixels: number
+): NormalizedPanelConstraints {
+  const {
+    collapsedSize,
+    collapsible,
+    defaultSize,
+    id,
+    maxSize,
+    minSize,
+    snapPoints = [],
+    snapThreshold,
+  } = panelConstraints;
+
+  return {
+    collapsedSize: convertPanelSizeToPercentage(
+      collapsedSize,
+      units,
+      groupSizePixels
+    ),
+    collapsible,
+    defaultSize:
+      defaultSize != null
+        ? convertPanelSizeToPercentage(defaultSize, units, groupSizePixels)
+        : null,
+    id,
+    maxSize:
+      maxSize != null
+        ? convertPanelSizeToPercentage(maxSize, units, groupSizePixels)
+        : null,
+    minSize: convertPanelSizeToPercentage(minSize, units, groupSizePixels),
+    snapPoints: snapPoints.map((snapPoint) =>
+      convertPanelSizeToPercentage(snapPoint, units, groupSizePixels)
+    ),
+    snapThreshold:
+      snapThreshold != null
+        ? convertPanelSizeToPercentage(snapThreshold, units, groupSizePixels)
+        : DEFAULT_SNAP_THRESHOLD,
+  };
+}
+
+// Plain numbers are interpreted using the group's units.
+export function parsePanelSize(
+  size: PanelSize,
+  units: Units
+): { unit: PanelSizeUnit; value: number } {
+  if (typeof size === "number") {
+    return { unit: units === "pixels" ? "px" : "%", value: size };
+  } else if (typeof size === "string") {
+    const value = parseFloat(size);
+    if (size.endsWith("px")) {
+      return { unit: "px", value };
+    } else if (size.endsWith("%")) {
+      return { unit: "%", value };
+    }
+
+    if (isDevelopment) {
+      console.error(`Invalid Panel size provided, "${size}"`);
+    }
+
+    return { unit: units === "pixels" ? "px" : "%", value };
+  } else {
+    return size;
+  }
+}
+
+export function safeResizePanel({
+  groupSizePixels,
+  panelConstraints,
+  prevSize,
+  size: nextSize,
+  trigger,
+  units,
+}: {
+  groupSizePixels: number;
+  panelConstraints: PanelConstraints;
+  prevSize: number;
+  size: number;
+  trigger: ResizeTrigger;
+  units: Units;
+}): number {
+  const { collapsedSize, collapsible, maxSize, minSize } =
+    normalizePanelConstraints(panelConstraints, units, groupSizePixels);
+
+  if (collapsible) {
+    if (prevSize > collapsedSize) {
+      // Mimic VS COde behavior; collapse a panel if it's smaller than half of its min-size
+      if (nextSize <= minSize / 2 + collapsedSize) {
+        return collapsedSize;
+      }
+    } else {
+      if (trigger !== "keyboard") {
+        // Keyboard events should expand a collapsed panel to the min size,
+        // but mouse events should wait until the panel has reached its min size
+        // to avoid a visual flickering when dragging between collapsed and min size.
+        if (nextSize < minSize) {
+          return collapsedSize;
+        }
+      }
+    }
+  }
+
+  return Math.min(maxSize != null ? maxSize : 100, Math.max(minSize, nextSize));
+}
+
+export function validatePanelGroupLayout({
+  groupSizePixels,
+  layout: nextLayout,
+  panelConstraints: panelConstraintsArray,
+  prevLayout,
+  units,
+}: {
+  groupSizePixels: number;
+  layout: number[];
+  panelConstraints: PanelConstraints[];
+  prevLayout: number[];
+  units: Units;
+}): number[] {
+  // Clone because this method modifies
+  nextLayout = [...nextLayout];
+
+  let remainingSize = 0;
+
+  // First, check all of the proposed sizes against the min/max constraints
+  for (let index = 0; index < panelConstraintsArray.length; index++) {
+    const panelConstraints = panelConstraintsArray[index];
+    const prevSize = prevLayout[index];
+    const nextSize = nextLayout[index];
+    const safeNextSize = safeResizePanel({
+      groupSizePixels,
+      panelConstraints,
+      prevSize,
+      size: nextSize,
+      trigger: "imperative-api",
+      units,
+    });
+    if (nextSize != safeNextSize) {
+      remainingSize += nextSize - safeNextSize;
+      nextLayout[index] = safeNextSize;
+
+      if (isDevelopment) {
+        console.error(
+          `Invalid size (${nextSize}) specified for Panel "${
+            panelConstraints.id ?? index
+          }" given the panel's min/max size constraints`
+        );
+      }
+    }
+  }
+
+  // If there is additional, left over space, assign it to any panel(s) that permits it
+  // (It's not worth taking multiple additional passes to evenly distribute)
+  if (remainingSize.toFixed(3) !== "0.000") {
+    for (let index = 0; index < panelConstraintsArray.length; index++) {
+      const { maxSize, minSize } = normalizePanelConstraints(
+        panelConstraintsArray[index],
+        units,
+        groupSizePixels
+      );
+
+      const size = Math.min(
+        maxSize != null ? maxSize : 100,
+        Math.max(minSize, nextLayout[index] + remainingSize)
+      );
+
+      if (size !== nextLayout[index]) {
+        remainingSize -= size - nextLayout[index];
+        nextLayout[index] = size;
+
+        // Fuzzy comparison to account for imprecise floating point math
+        if (Math.abs(remainingSize).toFixed(3) === "0.000") {
+          break;
+        }
+      }
+    }
+  }
+
+  // If we still have remainder, the requested layout wasn't valid and we should warn about it
+  if (remainingSize.toFixed(3) !== "0.000") {
+    if (isDevelopment) {
+      console.error(
+        `"Invalid panel group configuration; default panel sizes should total 100% but was ${
+          100 - remainingSize
+        }%`
+      );
+    }
+  }
+
+  return nextLayout;
+}
+
+// Shrinks all of the specified panels at once (rather than nearest first), until the delta has been applied.
+// Each panel's share of the delta is weighted by its current size ("proportional") or its shrinkPriority ("weighted").
+// Panels that reach their min size stop shrinking, and the rest of their share is redistributed between the others.
+// Returns the total amount the panels were able to shrink.
+function distributeDelta({
+  cascadeStrategy,
+  delta,
+  groupSizePixels,
+  indices,
+  layout,
+  panelConstraints,
+  prevLayout,
+  trigger,
+  units,
+}: {
+  cascadeStrategy: "proportional" | "weighted";
+  delta: number;
+  groupSizePixels: number;
+  indices: number[];
+  layout: number[];
+  panelConstraints: PanelConstraints[];
+  prevLayout: number[];
+  trigger: ResizeTrigger;
+  units: Units;
+}): number {
+  let deltaApplied = 0;
+
+  while (indices.length > 0) {
+    const deltaRemaining = delta - deltaApplied;
+
+    // Fuzzy comparison to account for imprecise floating point math
+    if (deltaRemaining <= 0 || deltaRemaining.toFixed(3) === "0.000") {
+      break;
+    }
+
+    const weights = indices.map((index) =>
+      cascadeStrategy === "weighted"
+        ? Math.max(0, panelConstraints[index].shrinkPriority ?? 1)
+        : layout[index]
+    );
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    if (totalWeight === 0) {
+      break;
+    }
+
+    const shares = weights.map(
+      (weight) => (deltaRemaining * weight) / totalWeight
+    );
+    const nextSizes = indices.map((index, weightIndex) =>
+      safeResizePanel({
+        groupSizePixels,
+        panelConstraints: panelConstraints[index],
+        prevSize: prevLayout[index],
+        size: layout[index] - shares[weightIndex],
+        trigger,
+        units,
+      })
+    );
+
+    // A collapsible panel may snap to its collapsed size (absorbing more than its share).
+    // In that case only the collapse is applied, and what's left of the delta (if anything)
+    // is redistributed between the other panels in the next pass.
+    const collapsedIndices = indices.filter(
+      (index, weightIndex) =>
+        nextSizes[weightIndex] < layout[index] - shares[weightIndex]
+    );
+    if (collapsedIndices.length > 0) {
+      indices.forEach((index, weightIndex) => {
+        if (collapsedIndices.includes(index)) {
+          deltaApplied += layout[index] - nextSizes[weightIndex];
+          layout[index] = nextSizes[weightIndex];
+        }
+      });
+
+      indices = indices.filter((index) => !collapsedIndices.includes(index));
+      continue;
+    }
+
+    const nextIndices: number[] = [];
+
+    indices.forEach((index, weightIndex) => {
+      if (weights[weightIndex] === 0) {
+        return;
+      }
+
+      const size = layout[index];
+      const nextSize = nextSizes[weightIndex];
+
+      deltaApplied += size - nextSize;
+      layout[index] = nextSize;
+
+      // Only panels that were able to absorb their full share might be able to shrink further
+      if (nextSize === size - shares[weightIndex]) {
+        nextIndices.push(index);
+      }
+    });
+
+    if (nextIndices.length === indices.length) {
+      break;
+    }
+
+    indices = nextIndices;
+  }
+
+  return deltaApplied;
+}
+
+// The panel before the resize handle grows by delta and the panel after it shrinks by delta.
+function getPivotPanelsWithSnapPoints({
+  groupSizePixels,
+  panelConstraints,
+  pivotIndices: [indexBefore, indexAfter],
+  units,
+}: {
+  groupSizePixels: number;
+  panelConstraints: PanelConstraints[];
+  pivotIndices: [indexBefore: number, indexAfter: number];
+  units: Units;
+}): Array<{
+  index: number;
+  sign: 1 | -1;
+  snapPoints: number[];
+  snapThreshold: number;
+}> {
+  return [
+    { index: indexBefore, sign: 1 as const },
+    { index: indexAfter, sign: -1 as const },
+  ]
+    .map(({ index, sign }) => {
+      const { snapPoints, snapThreshold } = normalizePanelConstraints(
+        panelConstraints[index],
+        units,
+        groupSizePixels
+      );
+
+      return { index, sign, snapPoints, snapThreshold };
+    })
+    .filter(({ snapPoints }) => snapPoints.length > 0);
+}
+
+// Snaps either of the panels adjacent to the resize handle to its nearest snap point,
+// if the size it's being dragged to is within that panel's snap threshold.
+function snapDelta({
+  delta,
+  groupSizePixels,
+  layout,
+  panelConstraints,
+  pivotIndices,
+  units,
+}: {
+  delta: number;
+  groupSizePixels: number;
+  layout: number[];
+  panelConstraints: PanelConstraints[];
+  pivotIndices: [indexBefore: number, indexAfter: number];
+  units: Units;
+}): number {
+  let minDistance = Infinity;
+  let snappedDelta = delta;
+
+  getPivotPanelsWithSnapPoints({
+    groupSizePixels,
+    panelConstraints,
+    pivotIndices,
+    units,
+  }).forEach(({ index, sign, snapPoints, snapThreshold }) => {
+    const prevSize = layout[index];
+    const nextSize = prevSize + delta * sign;
+
+    snapPoints.forEach((snapPoint) => {
+      const distance = Math.abs(snapPoint - nextSize);
+      if (distance <= snapThreshold && distance < minDistance) {
+        minDistance = distance;
+        snappedDelta = (snapPoint - prevSize) * sign;
+      }
+    });
+  });
+
+  return snappedDelta;
+}
+
+// Keyboard resizing steps to the next snap point (in the direction of the delta) of either panel adjacent to the resize handle.
+function stepDeltaToSnapPoint({
+  delta,
+  groupSizePixels,
+  layout,
+  panelConstraints,
+  pivotIndices,
+  units,
+}: {
+  delta: number;
+  groupSizePixels: number;
+  layout: number[];
+  panelConstraints: PanelConstraints[];
+  pivotIndices: [indexBefore: number, indexAfter: number];
+  units: Units;
+}): number {
+  let steppedDelta: number | null = null;
+
+  getPivotPanelsWithSnapPoints({
+    groupSizePixels,
+    panelConstraints,
+    pivotIndices,
+    units,
+  }).forEach(({ index, sign, snapPoints }) => {
+    const prevSize = layout[index];
+
+    snapPoints.forEach((snapPoint) => {
+      const stepDelta = (snapPoint - prevSize) * sign;
+
+      // Fuzzy comparison to account for imprecise floating point math
+      if (
+        Math.sign(stepDelta) === Math.sign(delta) &&
+        Math.abs(stepDelta).toFixed(3) !== "0.000"
+      ) {
+        if (
+          steppedDelta === null ||
+          Math.abs(stepDelta) < Math.abs(steppedDelta)
+        ) {
+          steppedDelta = stepDelta;
+        }
+      }
+    });
+  });
+
+  return steppedDelta ?? delta;
+}
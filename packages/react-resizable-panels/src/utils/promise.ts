@@ -0,0 +1,14 @@
+export type MaybePromise<T> = T | Promise<T>;
+
+export function isPromise<T>(value: MaybePromise<T>): value is Promise<T> {
+  return value != null && typeof (value as Promise<T>).then === "function";
+}
+
+// Calls the callback with the value once it has resolved;
+// synchronous values are passed to the callback synchronously (rather than on the next tick).
+export function whenResolved<T, U>(
+  value: MaybePromise<T>,
+  callback: (value: T) => MaybePromise<U>
+): MaybePromise<U> {
+  return isPromise(value) ? value.then(callback) : callback(value);
+}
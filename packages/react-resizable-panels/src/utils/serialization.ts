@@ -1,48 +1,183 @@
 import { PanelData, PanelGroupStorage } from "../types";
+import { formatPanelSize } from "./layout";
+import { isPromise, MaybePromise, whenResolved } from "./promise";
 
-type SerializedPanelGroupState = { [panelIds: string]: number[] };
+// Increment this whenever the serialized format changes,
+// and migrate older formats in migrateSerializedPanelGroupState() below.
+const SERIALIZATION_VERSION = 1;
+
+export type PanelGroupLayoutState = {
+  // Whether each panel was collapsed
+  collapsed: boolean[];
+  // Sizes collapsed panels should be restored to when expanded (if known)
+  expandToSizes: Array<number | null>;
+  sizes: number[];
+};
+
+type SerializedPanelGroupState = {
+  // Layouts (in panel order) by serialization key
+  layouts: { [serializationKey: string]: PanelGroupLayoutState };
+  version: number;
+};
+
+// Before the format was versioned, sizes were stored directly by serialization key (using getLegacySerializationKey).
+type LegacySerializedPanelGroupState = { [serializationKey: string]: number[] };
+
+function getLegacyStorageName(autoSaveId: string): string {
+  return `PanelGroup:sizes:${autoSaveId}`;
+}
+
+function getStorageName(autoSaveId: string): string {
+  return `PanelGroup:layout:${autoSaveId}`;
+}
 
 // Note that Panel ids might be user-provided (stable) or useId generated (non-deterministic)
-// so they should not be used as part of the serialization key.
-// Using an attribute like minSize instead should work well enough.
-// Pre-sorting by minSize allows remembering layouts even if panels are re-ordered/dragged.
+// so only user-provided ids can be used as part of the serialization key.
+// Other panels fall back to an attribute like minSize (see getLegacySerializationKey).
+// Pre-sorting allows remembering layouts even if panels are re-ordered/dragged.
 function getSerializationKey(panels: PanelData[]): string {
   return panels
     .map((panel) => {
-      const { minSize, order } = panel.current;
-      return order ? `${order}:${minSize}` : `${minSize}`;
+      const { id, idWasAutoGenerated } = panel.current;
+      return idWasAutoGenerated ? getLegacyPanelKey(panel) : `id:${id}`;
     })
     .sort((a, b) => a.localeCompare(b))
     .join(",");
 }
 
+function getLegacyPanelKey(panel: PanelData): string {
+  const { minSize, order } = panel.current;
+  const formattedMinSize = formatPanelSize(minSize);
+  return order ? `${order}:${formattedMinSize}` : formattedMinSize;
+}
+
+function getLegacySerializationKey(panels: PanelData[]): string {
+  return panels
+    .map(getLegacyPanelKey)
+    .sort((a, b) => a.localeCompare(b))
+    .join(",");
+}
+
+type LoadedPanelGroupState = {
+  // Whether layouts have already been saved under the current storage name (rather than the legacy one)
+  isMigrated: boolean;
+  state: SerializedPanelGroupState | null;
+};
+
+// Storage may be asynchronous (e.g. IndexedDB), in which case a promise is returned.
+// Throws (or rejects) if saved layouts can't be read, e.g. because of a storage error.
 function loadSerializedPanelGroupState(
   autoSaveId: string,
   storage: PanelGroupStorage
+): MaybePromise<LoadedPanelGroupState> {
+  return whenResolved(
+    storage.getItem(getStorageName(autoSaveId)),
+    (serialized) => {
+      if (serialized != null) {
+        return {
+          isMigrated: true,
+          state: parseSerializedPanelGroupState(serialized),
+        };
+      }
+
+      // Layouts saved in the legacy format are migrated the next time the layout is saved
+      return whenResolved(
+        storage.getItem(getLegacyStorageName(autoSaveId)),
+        (serialized) => ({
+          isMigrated: false,
+          state: parseSerializedPanelGroupState(serialized),
+        })
+      );
+    }
+  );
+}
+
+// Layouts saved before the format was versioned only stored panel sizes.
+function migrateSerializedPanelGroupState(
+  parsed: LegacySerializedPanelGroupState | SerializedPanelGroupState
+): SerializedPanelGroupState {
+  if (parsed.version === undefined) {
+    const layouts = parsed as LegacySerializedPanelGroupState;
+
+    const migratedLayouts: SerializedPanelGroupState["layouts"] = {};
+    for (let key in layouts) {
+      const sizes = layouts[key];
+      migratedLayouts[key] = {
+        collapsed: sizes.map(() => false),
+        expandToSizes: sizes.map(() => null),
+        sizes,
+      };
+    }
+
+    parsed = { layouts: migratedLayouts, version: SERIALIZATION_VERSION };
+  }
+
+  if (parsed.version === SERIALIZATION_VERSION) {
+    return parsed as SerializedPanelGroupState;
+  }
+
+  // Layouts saved by a newer version of this library can't be read (but shouldn't be overwritten either)
+  throw Error(
+    `Unsupported layout format (version ${parsed.version}) saved for PanelGroup`
+  );
+}
+
+// Values that aren't valid JSON can't contain any layouts;
+// they are treated as if nothing had been saved (and replaced the next time the layout is saved).
+function parseSerializedPanelGroupState(
+  serialized: string | null
 ): SerializedPanelGroupState | null {
+  let parsed = null;
   try {
-    const serialized = storage.getItem(`PanelGroup:sizes:${autoSaveId}`);
     if (serialized) {
-      const parsed = JSON.parse(serialized);
-      if (typeof parsed === "object" && parsed != null) {
-        return parsed;
-      }
+      parsed = JSON.parse(serialized);
     }
   } catch (error) {}
 
+  if (typeof parsed === "object" && parsed != null) {
+    return migrateSerializedPanelGroupState(parsed);
+  }
+
   return null;
 }
 
+// Used to identify changes (e.g. from storage events) to the layouts saved for a group.
+export function isPanelGroupStorageKey(
+  autoSaveId: string,
+  key: string | null
+): boolean {
+  return key === getStorageName(autoSaveId);
+}
+
 export function loadPanelLayout(
   autoSaveId: string,
   panels: PanelData[],
   storage: PanelGroupStorage
-): number[] | null {
-  const state = loadSerializedPanelGroupState(autoSaveId, storage);
-  if (state) {
-    const key = getSerializationKey(panels);
-    return state[key] ?? null;
-  }
+): MaybePromise<PanelGroupLayoutState | null> {
+  try {
+    const layoutState = whenResolved(
+      loadSerializedPanelGroupState(autoSaveId, storage),
+      ({ state }) => {
+        if (state) {
+          const { layouts } = state;
+
+          // Layouts saved before panels were keyed by id can still be restored
+          return (
+            layouts[getSerializationKey(panels)] ??
+            layouts[getLegacySerializationKey(panels)] ??
+            null
+          );
+        }
+
+        return null;
+      }
+    );
+    if (isPromise(layoutState)) {
+      return layoutState.catch(() => null);
+    }
+
+    return layoutState;
+  } catch (error) {}
 
   return null;
 }
@@ -50,15 +185,40 @@ export function loadPanelLayout(
 export function savePanelGroupLayout(
   autoSaveId: string,
   panels: PanelData[],
-  sizes: number[],
+  layoutState: PanelGroupLayoutState,
   storage: PanelGroupStorage
 ): void {
   const key = getSerializationKey(panels);
-  const state = loadSerializedPanelGroupState(autoSaveId, storage) || {};
-  state[key] = sizes;
 
   try {
-    storage.setItem(`PanelGroup:sizes:${autoSaveId}`, JSON.stringify(state));
+    // Layouts for other panel combinations are preserved;
+    // if the saved layouts can't be read, nothing is saved (rather than discarding them).
+    const result = whenResolved(
+      loadSerializedPanelGroupState(autoSaveId, storage),
+      ({ isMigrated, state }) => {
+        const nextState = state || {
+          layouts: {},
+          version: SERIALIZATION_VERSION,
+        };
+        nextState.layouts[key] = layoutState;
+
+        return whenResolved(
+          storage.setItem(
+            getStorageName(autoSaveId),
+            JSON.stringify(nextState)
+          ),
+          () => {
+            // Layouts saved in the legacy format aren't needed once they have been migrated
+            if (!isMigrated && storage.removeItem) {
+              return storage.removeItem(getLegacyStorageName(autoSaveId));
+            }
+          }
+        );
+      }
+    );
+    if (isPromise(result)) {
+      result.catch((error) => console.error(error));
+    }
   } catch (error) {
     console.error(error);
   }